@@ -1,11 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
-import { Plus, Library } from 'lucide-react';
+import { Plus, Library, Settings, FolderInput, ListMusic } from 'lucide-react';
 import { Material } from './types';
 import { ArticleCard } from './components/ArticleCard';
 import { BlurReader } from './components/BlurReader';
 import { ImportWizard } from './components/ImportWizard';
+import { TimingEditor } from './components/TimingEditor';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ImportJobsPanel } from './components/ImportJobsPanel';
+import { AlignmentReview } from './components/AlignmentReview';
+import { BatchImport } from './components/BatchImport';
+import { MiniPlayer } from './components/MiniPlayer';
+import { useImportQueue } from './hooks/useImportQueue';
+import { usePlaylist } from './hooks/usePlaylist';
+import { ImportInput } from './services/importPipeline';
 import { getAudioBlob, saveAudioBlob, deleteAudioBlob } from './utils/storage';
+import { AppSettings, loadSettings, saveSettings } from './utils/settings';
+import { deletePractice } from './utils/practiceStore';
 
 export default function App() {
   const [activeMaterial, setActiveMaterial] = useState<Material | null>(null);
@@ -13,10 +24,16 @@ export default function App() {
   
   // Import/Edit State
   const [showImport, setShowImport] = useState(false);
+  const [showBatchImport, setShowBatchImport] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
+  const [timingMaterial, setTimingMaterial] = useState<Material | null>(null);
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
   
   const [hasLoaded, setHasLoaded] = useState(false);
 
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+
   // 1. Initial Load: Metadata from LocalStorage + Audio from IndexedDB
   useEffect(() => {
     const loadData = async () => {
@@ -65,71 +82,127 @@ export default function App() {
     }
   }, [materials, hasLoaded]);
 
-  const handleImport = async (material: Material, audioBlob: Blob | null) => {
-    try {
-        // If there's a new audio blob, save it.
-        // If audioBlob is null (edit mode without file change), we skip saving blob
-        if (audioBlob) {
-            await saveAudioBlob(material.id, audioBlob);
-        }
-        
-        let objectUrl = "";
-        
-        if (audioBlob) {
-             objectUrl = URL.createObjectURL(audioBlob);
-        } else {
-             // Retrieve existing URL logic if needed, but usually we just want to update metadata
-             // If we are editing and didn't provide new audio, we need to ensure the material in state has a valid URL
-             // We can fetch the blob again to generate the URL for the current session
-             const existingBlob = await getAudioBlob(material.id);
-             if (existingBlob) {
-                 objectUrl = URL.createObjectURL(existingBlob);
-             }
+  // Stores the audio (when given) and adds or replaces the material in the library.
+  // Rejects when storage fails, so background imports can report it.
+  const saveMaterial = async (material: Material, audioBlob: Blob | null) => {
+    // If there's a new audio blob, save it.
+    // If audioBlob is null (edit mode without file change), we skip saving blob
+    if (audioBlob) {
+        await saveAudioBlob(material.id, audioBlob);
+    }
+    
+    let objectUrl = "";
+    
+    if (audioBlob) {
+         objectUrl = URL.createObjectURL(audioBlob);
+    } else {
+         // Retrieve existing URL logic if needed, but usually we just want to update metadata
+         // If we are editing and didn't provide new audio, we need to ensure the material in state has a valid URL
+         // We can fetch the blob again to generate the URL for the current session
+         const existingBlob = await getAudioBlob(material.id);
+         if (existingBlob) {
+             objectUrl = URL.createObjectURL(existingBlob);
+         }
+    }
+
+    const materialWithUrl = { ...material, audioUrl: objectUrl };
+    
+    setMaterials(prev => {
+        const exists = prev.findIndex(m => m.id === material.id);
+        if (exists !== -1) {
+            // Update existing
+            const updated = [...prev];
+            // Re-imports build a fresh material: keep the loop ranges saved while practising
+            updated[exists] = { loopRanges: prev[exists].loopRanges, ...materialWithUrl };
+            return updated;
         }
+        // Add new
+        return [materialWithUrl, ...prev];
+    });
+  };
 
-        const materialWithUrl = { ...material, audioUrl: objectUrl };
-        
-        setMaterials(prev => {
-            const exists = prev.findIndex(m => m.id === material.id);
-            if (exists !== -1) {
-                // Update existing
-                const updated = [...prev];
-                updated[exists] = materialWithUrl;
-                return updated;
-            }
-            // Add new
-            return [materialWithUrl, ...prev];
-        });
-        
+  const handleImport = async (material: Material, audioBlob: Blob | null) => {
+    try {
+        await saveMaterial(material, audioBlob);
         setShowImport(false);
         setEditingMaterial(null);
+        setTimingMaterial(null);
     } catch (e) {
         alert("Failed to save audio file. Storage might be full.");
         console.error(e);
     }
   };
 
+  // Background imports: the wizard queues a job and closes, the jobs panel tracks it
+  const importQueue = useImportQueue(async (material, audioBlob) => {
+    try {
+        await saveMaterial(material, audioBlob);
+    } catch (e) {
+        console.error(e);
+        throw new Error("Failed to save audio file. Storage might be full.");
+    }
+  });
+  const reviewJob = importQueue.jobs.find(job => job.id === reviewJobId && job.review);
+
+  const handleQueueImport = (input: ImportInput) => {
+    importQueue.enqueue(input);
+    setShowImport(false);
+    setEditingMaterial(null);
+  };
+
+  // Practice data saved from the reader; the reader keeps its own copy, so the active material stays as it is
+  const updateMaterial = (material: Material) => {
+    setMaterials(prev => prev.map(m => m.id === material.id ? material : m));
+  };
+
+  // Extensive listening: queued materials play back to back, also while browsing the library
+  const playlist = usePlaylist(materials);
+
+  // One player at a time: the reader takes over from the mini player
+  const openMaterial = (material: Material) => {
+    playlist.pause();
+    setActiveMaterial(material);
+  };
+
+  const handleQueue = (e: React.MouseEvent, material: Material) => {
+      e.stopPropagation();
+      playlist.enqueue(material.id);
+  };
+
   const handleEdit = (e: React.MouseEvent, material: Material) => {
       e.stopPropagation();
       setEditingMaterial(material);
       setShowImport(true);
   };
 
+  const handleEditTimings = (e: React.MouseEvent, material: Material) => {
+      e.stopPropagation();
+      setTimingMaterial(material);
+  };
+
   const deleteMaterial = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     if (confirm("Delete this session?")) {
         await deleteAudioBlob(id);
+        deletePractice(id);
+        playlist.remove(id);
         setMaterials(prev => prev.filter(m => m.id !== id));
     }
   };
   
+  const handleSaveSettings = (updated: AppSettings) => {
+      setSettings(updated);
+      saveSettings(updated);
+      setShowSettings(false);
+  };
+
   const closeWizard = () => {
       setShowImport(false);
       setEditingMaterial(null);
   };
 
   if (activeMaterial) {
-    return <BlurReader material={activeMaterial} onBack={() => setActiveMaterial(null)} />;
+    return <BlurReader material={activeMaterial} onBack={() => setActiveMaterial(null)} onUpdateMaterial={updateMaterial} />;
   }
 
   // --- Spotify/Magazine Style UI ---
@@ -138,7 +211,14 @@ export default function App() {
       
       {/* Header / Greeting */}
       <div className="pt-12 px-6 md:px-12 max-w-7xl mx-auto">
-        <header className="mb-12 border-b border-zinc-800 pb-8">
+        <header className="mb-12 border-b border-zinc-800 pb-8 relative">
+            <button 
+                onClick={() => setShowSettings(true)}
+                className="absolute top-0 right-0 p-2 text-zinc-500 hover:text-white transition-colors"
+                title="Settings"
+            >
+                <Settings size={20} />
+            </button>
             <h1 className="text-5xl md:text-7xl font-serif italic font-bold tracking-tight text-white mb-2 flex items-center gap-3">
                LeadYouth
             </h1>
@@ -148,7 +228,7 @@ export default function App() {
         </header>
 
         {/* Action Bar */}
-        <div className="mb-12 flex justify-center">
+        <div className="mb-12 flex flex-col items-center gap-4">
              <button 
                  onClick={() => setShowImport(true)}
                  className="flex items-center gap-3 bg-white hover:bg-zinc-200 active:scale-95 transition-all text-black px-8 py-4 rounded-full font-serif font-bold shadow-[0_0_20px_rgba(255,255,255,0.1)] group"
@@ -158,6 +238,12 @@ export default function App() {
                  </div>
                  <span>Create New Session</span>
               </button>
+             <button 
+                 onClick={() => setShowBatchImport(true)}
+                 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-zinc-500 hover:text-white transition-colors"
+              >
+                 <FolderInput size={14} /> Import a Folder or Zip
+              </button>
         </div>
 
         {/* Content Grid */}
@@ -168,17 +254,30 @@ export default function App() {
                   <p className="text-xl font-serif italic">Your library is empty</p>
                </div>
             ) : (
-               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-x-8 gap-y-12">
-                  {materials.map((material) => (
-                      <ArticleCard 
-                          key={material.id}
-                          material={material} 
-                          onClick={setActiveMaterial} 
-                          onEdit={(e) => handleEdit(e, material)}
-                          onDelete={(e) => deleteMaterial(e, material.id)}
-                      />
-                  ))}
-               </div>
+               <>
+                 <div className="flex justify-end mb-6">
+                    <button 
+                        onClick={() => playlist.playAll(materials.map(m => m.id))}
+                        disabled={!materials.some(m => m.audioUrl)}
+                        className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-zinc-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <ListMusic size={14} /> Play All
+                    </button>
+                 </div>
+                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-x-8 gap-y-12">
+                    {materials.map((material) => (
+                        <ArticleCard 
+                            key={material.id}
+                            material={material} 
+                            onClick={openMaterial} 
+                            onEdit={(e) => handleEdit(e, material)}
+                            onEditTimings={(e) => handleEditTimings(e, material)}
+                            onDelete={(e) => deleteMaterial(e, material.id)}
+                            onQueue={(e) => handleQueue(e, material)}
+                        />
+                    ))}
+                 </div>
+               </>
             )}
         </main>
       </div>
@@ -187,8 +286,56 @@ export default function App() {
       {showImport && (
         <ImportWizard 
           initialData={editingMaterial || undefined}
+          settings={settings}
           onClose={closeWizard} 
-          onImport={handleImport}
+          onQueue={handleQueueImport}
+        />
+      )}
+
+      {showBatchImport && (
+        <BatchImport 
+          settings={settings}
+          jobs={importQueue.jobs}
+          onClose={() => setShowBatchImport(false)}
+          onQueue={importQueue.enqueue}
+        />
+      )}
+
+      <MiniPlayer playlist={playlist} onOpen={openMaterial} />
+
+      <ImportJobsPanel 
+        jobs={importQueue.jobs}
+        onCancel={importQueue.cancel}
+        onRetry={importQueue.retry}
+        onDismiss={importQueue.dismiss}
+        onReview={setReviewJobId}
+      />
+
+      {/* Alignment report for an import that stopped for review */}
+      {reviewJob?.review && (
+        <AlignmentReview 
+          title={reviewJob.input.title}
+          result={reviewJob.review.result}
+          onClose={() => setReviewJobId(null)}
+          onDiscard={() => { importQueue.dismiss(reviewJob.id); setReviewJobId(null); }}
+          onSave={() => { importQueue.acceptReview(reviewJob.id); setReviewJobId(null); }}
+        />
+      )}
+
+      {/* Timing Editor: segments only, the stored audio blob is left untouched */}
+      {timingMaterial && (
+        <TimingEditor 
+          material={timingMaterial}
+          onClose={() => setTimingMaterial(null)}
+          onSave={(material) => handleImport(material, null)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel 
+          settings={settings}
+          onClose={() => setShowSettings(false)}
+          onSave={handleSaveSettings}
         />
       )}
     </div>
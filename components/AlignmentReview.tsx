@@ -0,0 +1,95 @@
+import React from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { ValidationResult } from '../utils/alignmentValidation';
+
+interface AlignmentReviewProps {
+  title: string;
+  result: ValidationResult;
+  onClose: () => void;
+  onDiscard: () => void;
+  onSave: () => void;
+}
+
+// Alignment report shown when validation finds problems too large to fix silently
+export const AlignmentReview: React.FC<AlignmentReviewProps> = ({ title, result, onClose, onDiscard, onSave }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl bg-[#09090b] rounded-sm shadow-2xl overflow-hidden border border-zinc-800 flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-[#09090b]">
+          <h2 className="text-2xl font-serif font-bold text-white truncate">{title}</h2>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar flex-1">
+          <div className="flex items-start gap-3 bg-yellow-500/10 border border-yellow-500/30 rounded-sm p-4">
+            <AlertTriangle size={18} className="text-yellow-500 flex-none mt-0.5" />
+            <div>
+              <p className="text-sm font-bold text-white">The alignment needs a look before saving</p>
+              <p className="text-xs text-zinc-400 mt-1">
+                Small problems were repaired automatically. Save the repaired version, or discard it and import again with another text or aligner.
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Report</label>
+            <ul className="space-y-1">
+              {result.issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-3 text-xs font-mono">
+                  <span className={`flex-none uppercase font-bold tracking-wider ${issue.severity === 'major' ? 'text-[#d44c47]' : 'text-zinc-500'}`}>
+                    {issue.severity === 'major' ? 'Check' : 'Fixed'}
+                  </span>
+                  <span className="text-zinc-300">
+                    {issue.segmentIndex !== undefined && <span className="text-zinc-500">#{issue.segmentIndex + 1} </span>}
+                    {issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {result.textDiff.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Wording Diff</label>
+              <p className="bg-zinc-900/30 border border-zinc-800 rounded-sm p-4 font-serif leading-relaxed text-zinc-500 max-h-64 overflow-y-auto custom-scrollbar">
+                {result.textDiff.map((entry, i) => (
+                  <span
+                    key={i}
+                    className={entry.type === 'missing' ? 'text-[#1db954] font-bold' : entry.type === 'extra' ? 'text-[#d44c47] line-through' : ''}
+                    title={entry.type === 'missing' ? 'In your transcript, dropped by the aligner' : entry.type === 'extra' ? 'Added by the aligner' : undefined}
+                  >
+                    {entry.text}{' '}
+                  </span>
+                ))}
+              </p>
+              <p className="text-[10px] text-zinc-600">
+                <span className="text-[#1db954] font-bold">Green</span> words were restored from your transcript, <span className="text-[#d44c47] line-through">red</span> words were removed.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 bg-[#09090b] border-t border-zinc-800 flex justify-end items-center gap-4">
+          <button
+            onClick={onDiscard}
+            className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onSave}
+            className="flex items-center gap-2 px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest bg-[#d44c47] hover:bg-[#ff5e5e]"
+          >
+            Save Repaired
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
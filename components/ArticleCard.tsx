@@ -1,71 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { Edit2, Trash2 } from 'lucide-react';
+import { Edit2, Trash2, AudioWaveform, ListPlus } from 'lucide-react';
 import { Material } from '../types';
+import { SubtitleExportMenu } from './SubtitleExportMenu';
+import { generateCoverArt } from '../utils/coverArt';
+import { loadPractice } from '../utils/practiceStore';
 
 interface ArticleCardProps {
   material: Material;
   onClick: (material: Material) => void;
   onEdit: (e: React.MouseEvent) => void;
+  onEditTimings: (e: React.MouseEvent) => void;
   onDelete: (e: React.MouseEvent) => void;
+  onQueue: (e: React.MouseEvent) => void;
 }
 
-// Deterministic Random Number Generator based on seed string
-const mulberry32 = (a: number) => {
-    return () => {
-      let t = a += 0x6D2B79F5;
-      t = Math.imul(t ^ (t >>> 15), t | 1);
-      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-    }
-}
-
-const strToSeed = (str: string) => {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-        hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    return Math.abs(hash);
-}
-
-// Designer Palettes
-const PALETTES = [
-    ['#E63946', '#F1FAEE', '#A8DADC', '#457B9D', '#1D3557'], // Americana
-    ['#264653', '#2A9D8F', '#E9C46A', '#F4A261', '#E76F51'], // Earth & Sun
-    ['#003049', '#D62828', '#F77F00', '#FCBF49', '#EAE2B7'], // Retro Poster
-    ['#2b2d42', '#8d99ae', '#edf2f4', '#ef233c', '#d90429'], // Modernist
-    ['#606c38', '#283618', '#fefae0', '#dda15e', '#bc6c25'], // Forest
-];
+const formatTime = (t: number) => {
+  const mins = Math.floor(t / 60);
+  const secs = Math.floor(t % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
 
 const GenerativeArtCover: React.FC<{ title: string }> = ({ title }) => {
-    const art = useMemo(() => {
-        const seed = strToSeed(title);
-        const rand = mulberry32(seed);
-        
-        // Select Palette
-        const paletteIdx = Math.floor(rand() * PALETTES.length);
-        const palette = PALETTES[paletteIdx];
-        const bg = palette[0];
-        const colors = palette.slice(1);
-
-        // Generate Shapes
-        const shapes = [];
-        const numShapes = 3 + Math.floor(rand() * 5); // 3 to 7 shapes
-        
-        for(let i=0; i<numShapes; i++) {
-            shapes.push({
-                type: rand() > 0.5 ? 'circle' : 'rect',
-                cx: rand() * 100,
-                cy: rand() * 100,
-                r: 10 + rand() * 40, // radius or width
-                h: 10 + rand() * 40, // height for rect
-                fill: colors[Math.floor(rand() * colors.length)],
-                rotation: rand() * 360,
-                opacity: 0.6 + rand() * 0.4
-            });
-        }
-        
-        return { bg, shapes, palette };
-    }, [title]);
+    const art = useMemo(() => generateCoverArt(title), [title]);
 
     return (
         <svg viewBox="0 0 100 125" preserveAspectRatio="xMidYMid slice" className="w-full h-full absolute inset-0">
@@ -125,13 +81,18 @@ const GenerativeArtCover: React.FC<{ title: string }> = ({ title }) => {
     );
 }
 
-export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onEdit, onDelete }) => {
+export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onEdit, onEditTimings, onDelete, onQueue }) => {
   const [imgError, setImgError] = useState(false);
   const firstLetter = material.title.charAt(0).toUpperCase();
 
   // Use the generative cover if no image or if image failed
   const showGenerative = !material.imageUrl || imgError;
 
+  // Where the reader was left; the library remounts after closing it, so this is read fresh each time
+  const resumeTime = useMemo(() => loadPractice(material.id).resumeTime ?? 0, [material.id]);
+  const totalTime = material.segments[material.segments.length - 1]?.endTime ?? 0;
+  const showResume = resumeTime >= 1 && totalTime > 0;
+
   return (
     <div 
       onClick={() => onClick(material)}
@@ -174,6 +135,13 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onE
              </div>
          )}
          
+         {/* Listening Progress */}
+         {showResume && (
+             <div className="absolute bottom-0 inset-x-0 h-1 bg-black/50 z-20">
+                 <div className="h-full bg-[#d44c47]" style={{ width: `${Math.min(100, (resumeTime / totalTime) * 100)}%` }} />
+             </div>
+         )}
+         
          {/* Edit/Delete Overlay */}
          <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-20">
             <button 
@@ -183,6 +151,25 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onE
             >
                 <Edit2 size={14} />
             </button>
+            <button 
+                onClick={onEditTimings}
+                className="p-2 bg-black/50 text-white hover:bg-white hover:text-black rounded-full shadow-lg backdrop-blur-sm transition-colors"
+                title="Edit Timings"
+            >
+                <AudioWaveform size={14} />
+            </button>
+            <button 
+                onClick={onQueue}
+                disabled={!material.audioUrl}
+                className="p-2 bg-black/50 text-white hover:bg-white hover:text-black rounded-full shadow-lg backdrop-blur-sm transition-colors disabled:hidden"
+                title="Add to Queue"
+            >
+                <ListPlus size={14} />
+            </button>
+            <SubtitleExportMenu 
+                material={material}
+                buttonClassName="p-2 bg-black/50 text-white hover:bg-white hover:text-black rounded-full shadow-lg backdrop-blur-sm transition-colors"
+            />
             <button 
                 onClick={onDelete}
                 className="p-2 bg-black/50 text-white hover:bg-[#d44c47] rounded-full shadow-lg backdrop-blur-sm transition-colors"
@@ -202,7 +189,7 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ material, onClick, onE
         <div className="mt-2 flex items-center justify-between text-[10px] font-sans font-bold uppercase tracking-widest text-zinc-500">
             <span>{material.category}</span>
             <span className="flex items-center gap-1">
-                {material.duration}
+                {showResume ? <span className="text-[#d44c47]">Continue at {formatTime(resumeTime)}</span> : material.duration}
             </span>
         </div>
         
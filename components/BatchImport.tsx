@@ -0,0 +1,245 @@
+import React, { useState, useRef } from 'react';
+import { X, FolderOpen, FileArchive, Loader2, Music, Captions, FileText, AlertTriangle, Check } from 'lucide-react';
+import { AppSettings } from '../utils/settings';
+import { ImportInput } from '../services/importPipeline';
+import { ImportJob } from '../hooks/useImportQueue';
+import { BATCH_ACCEPT, BatchFile, BatchPlan, planBatch, filesFromDataTransfer, filesFromInput } from '../utils/batchImport';
+
+interface BatchImportProps {
+  settings: AppSettings;
+  jobs: ImportJob[];
+  onClose: () => void;
+  onQueue: (input: ImportInput) => string;
+}
+
+// Turns a folder or zip of name.mp3 + name.txt (or .srt/.vtt/.lrc) pairs into one session per pair.
+// Pairs run through the same background queue as single imports; the summary follows their jobs.
+export const BatchImport: React.FC<BatchImportProps> = ({ settings, jobs, onClose, onQueue }) => {
+  const [plan, setPlan] = useState<BatchPlan | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [queued, setQueued] = useState<{ title: string; jobId: string }[] | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+
+  const scan = async (files: BatchFile[]) => {
+    if (files.length === 0) return;
+    setIsScanning(true);
+    try {
+      setPlan(await planBatch(files));
+    } catch (error) {
+      console.error("Batch scan failed", error);
+      alert(error instanceof Error ? error.message : "Could not read the files.");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? filesFromInput(e.target.files) : [];
+    e.target.value = '';
+    scan(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    scan(await filesFromDataTransfer(e.dataTransfer));
+  };
+
+  const queueAll = () => {
+    if (!plan) return;
+    const stamp = Date.now();
+    setQueued(plan.items.map((item, i) => ({
+      title: item.title,
+      jobId: onQueue({
+        materialId: `custom-${stamp}-${i}`,
+        title: item.title,
+        text: item.text,
+        audioBlob: item.readAudio,
+        replacesAudio: true,
+        offsetSeconds: 0,
+        imageUrl: "",
+        subtitles: item.subtitles,
+        settings
+      })
+    })));
+  };
+
+  const renderPicker = () => (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`border border-dashed rounded-sm p-10 flex flex-col items-center justify-center text-center gap-6 transition-all ${isDragging ? 'border-white bg-zinc-900' : 'border-zinc-700'}`}
+    >
+      <input
+        ref={el => {
+          folderInputRef.current = el;
+          if (el) el.webkitdirectory = true;
+        }}
+        type="file"
+        className="hidden"
+        onChange={handleInput}
+      />
+      <input ref={filesInputRef} type="file" multiple accept={BATCH_ACCEPT} className="hidden" onChange={handleInput} />
+
+      {isScanning ? (
+        <div className="flex items-center gap-2 text-zinc-400 text-sm uppercase tracking-wide">
+          <Loader2 size={18} className="animate-spin" /> Reading files...
+        </div>
+      ) : (
+        <>
+          <p className="text-zinc-500 font-sans text-sm uppercase tracking-wide">Drop a folder or zip here</p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="flex items-center gap-2 px-5 py-2 border border-zinc-700 hover:border-white rounded-full text-xs font-bold uppercase tracking-widest text-zinc-300 hover:text-white transition-all"
+            >
+              <FolderOpen size={14} /> Choose Folder
+            </button>
+            <button
+              onClick={() => filesInputRef.current?.click()}
+              className="flex items-center gap-2 px-5 py-2 border border-zinc-700 hover:border-white rounded-full text-xs font-bold uppercase tracking-widest text-zinc-300 hover:text-white transition-all"
+            >
+              <FileArchive size={14} /> Choose Files or Zip
+            </button>
+          </div>
+          <p className="text-[10px] text-zinc-600 max-w-sm">
+            Each audio file needs a transcript with the same name: lesson1.mp3 + lesson1.txt, or lesson1.srt for ready-made timings. Titles are taken from the file names.
+          </p>
+        </>
+      )}
+    </div>
+  );
+
+  const renderProblems = (title: string, rows: { path: string; reason: string }[]) => rows.length > 0 && (
+    <div className="space-y-2">
+      <label className="text-xs font-bold uppercase text-[#d44c47] tracking-widest font-sans">{title} ({rows.length})</label>
+      <ul className="space-y-1">
+        {rows.map((row, i) => (
+          <li key={i} className="flex items-start gap-2 text-xs font-mono">
+            <AlertTriangle size={12} className="flex-none mt-0.5 text-[#d44c47]" />
+            <span className="text-zinc-300 break-all">{row.path}</span>
+            <span className="text-zinc-500">{row.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderPreview = (current: BatchPlan) => (
+    <>
+      <div className="space-y-2">
+        <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Ready to Import ({current.items.length})</label>
+        <ul className="divide-y divide-zinc-900 border border-zinc-800 rounded-sm">
+          {current.items.map(item => (
+            <li key={item.key} className="flex items-center justify-between gap-4 px-4 py-2">
+              <div className="min-w-0">
+                <div className="text-sm font-serif text-white truncate">{item.title}</div>
+                <div className="text-[10px] font-mono text-zinc-600 flex items-center gap-1 truncate"><Music size={10} /> {item.audioName}</div>
+              </div>
+              <span className="flex-none flex items-center gap-1 text-[10px] uppercase tracking-widest text-zinc-500">
+                {item.subtitles ? <><Captions size={12} /> Timed</> : <><FileText size={12} /> Align</>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+      {renderProblems('Not Imported', current.problems)}
+      {current.ignored > 0 && (
+        <p className="text-[10px] text-zinc-600">{current.ignored} other file{current.ignored === 1 ? '' : 's'} ignored.</p>
+      )}
+    </>
+  );
+
+  const renderSummary = (current: BatchPlan, entries: { title: string; jobId: string }[]) => {
+    const tracked = entries.map(entry => ({ ...entry, job: jobs.find(j => j.id === entry.jobId) }));
+    const done = tracked.filter(t => t.job?.status === 'done').length;
+    const pending = tracked.filter(t => t.job?.status === 'queued' || t.job?.status === 'running').length;
+    const failed = [
+      ...current.problems,
+      ...tracked
+        .filter(t => t.job && t.job.status !== 'done' && t.job.status !== 'queued' && t.job.status !== 'running')
+        .map(t => ({ path: t.title, reason: t.job!.status === 'review' ? 'Needs review: open it from the imports panel.' : t.job!.detail })),
+    ];
+
+    return (
+      <>
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {[
+            { label: 'Imported', count: done, color: 'text-[#1db954]' },
+            { label: 'In Progress', count: pending, color: 'text-white' },
+            { label: 'Failed', count: failed.length, color: 'text-[#d44c47]' },
+          ].map(({ label, count, color }) => (
+            <div key={label} className="border border-zinc-800 rounded-sm p-4">
+              <div className={`text-3xl font-serif font-bold ${color}`}>{count}</div>
+              <div className="text-[10px] uppercase tracking-widest text-zinc-500 mt-1">{label}</div>
+            </div>
+          ))}
+        </div>
+        <ul className="space-y-1">
+          {tracked.map(({ title, jobId, job }) => (
+            <li key={jobId} className="flex items-center justify-between gap-4 text-xs font-mono">
+              <span className="text-zinc-300 truncate">{title}</span>
+              <span className="flex-none flex items-center gap-1 text-zinc-500">
+                {job?.status === 'done' && <Check size={12} className="text-[#1db954]" />}
+                {job?.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                {job ? job.detail : 'Dismissed'}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {renderProblems('Failed', failed)}
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl bg-[#09090b] rounded-sm shadow-2xl overflow-hidden border border-zinc-800 flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-[#09090b]">
+          <h2 className="text-2xl font-serif font-bold text-white">Batch Import</h2>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-8 space-y-8 overflow-y-auto custom-scrollbar flex-1">
+          {!plan ? renderPicker() : queued ? renderSummary(plan, queued) : renderPreview(plan)}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 bg-[#09090b] border-t border-zinc-800 flex justify-end items-center gap-4">
+          {plan && !queued ? (
+            <>
+              <button
+                onClick={() => setPlan(null)}
+                className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+              >
+                Back
+              </button>
+              <button
+                onClick={queueAll}
+                disabled={plan.items.length === 0}
+                className="px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest bg-[#d44c47] hover:bg-[#ff5e5e] disabled:bg-zinc-800 disabled:text-zinc-600 disabled:cursor-not-allowed"
+              >
+                Import {plan.items.length} Session{plan.items.length === 1 ? '' : 's'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+            >
+              {queued ? 'Close' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,61 +1,271 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Material, Segment } from '../types';
-import { ArrowLeft, Play, Pause, Square, AlignJustify, SkipBack, SkipForward, Repeat, Download, Mic, Eye, EyeOff, BookOpen, MessageSquare, MicOff, RotateCcw, RotateCw } from 'lucide-react';
-import { mergeAudioBlobs } from '../utils/audioUtils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Material, Segment, LoopRange } from '../types';
+import { ArrowLeft, Play, Pause, Square, AlignJustify, SkipBack, SkipForward, Repeat, Download, Mic, Eye, EyeOff, BookOpen, MessageSquare, MicOff, RotateCcw, RotateCw, Underline, TextCursor, Users, X, Loader2, Keyboard, PenLine, TextCursorInput, ScanEye, AudioLines } from 'lucide-react';
+import { mergeAudioBlobs, decodeAudioBlob } from '../utils/audioUtils';
+import { BufferPlayer, PlaybackPiece, NextPiece, PlaybackHandlers } from '../utils/bufferPlayer';
+import { SubtitleExportMenu } from './SubtitleExportMenu';
+import { getWordTimings, findWordIndex } from '../utils/wordTimings';
+import { listSpeakers, getSpeakerColor } from '../utils/speakers';
+import { loadPractice, savePractice, ShadowGap, DEFAULT_SHADOW_GAP, ViewMode, PlaybackMode } from '../utils/practiceStore';
+import { SpeedControl, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from './SpeedControl';
+import { ShadowGapControl, ShadowGapCountdown } from './ShadowGapControl';
+import { LoopRangesMenu, formatRangeTime } from './LoopRangesMenu';
+import { renderCoverArt } from '../utils/coverArt';
+import { Keymap, KeyAction, loadKeymap, saveKeymap, bindingFromEvent, findAction, formatBinding } from '../utils/keymap';
+import { ShortcutsOverlay } from './ShortcutsOverlay';
+import { checkDictation } from '../utils/dictation';
+import { ClozeSettings, ClozeAnswer, DEFAULT_CLOZE, pickClozeGaps, splitPunctuation, isClozeAnswer } from '../utils/cloze';
+import { ClozeControl, ClozeGap } from './ClozeControl';
+import { PeekLog, PeekedWord, addPeek, countPeeks, listPeekedWords } from '../utils/peeks';
+import { PeekLogMenu } from './PeekLogMenu';
+import { DictationInput, DictationResultText, DictationScore, DictationSessionBar, DictationTally } from './DictationPanel';
+import { ShadowRecorder, ShadowTake, TakePlayback, createTake, playTake, MAX_TAKE_SECONDS, loadShadowOffset, saveShadowOffset } from '../utils/shadowing';
+import { ShadowTakeBar } from './ShadowTakeBar';
+import { PronunciationScores, scorePronunciation } from '../utils/pronunciation';
+import { PronunciationScore } from './PronunciationScore';
 
 interface BlurReaderProps {
   material: Material;
   onBack: () => void;
+  onUpdateMaterial: (material: Material) => void; // Persists practice data saved on the material, e.g. loop ranges
 }
 
-type ViewMode = 'visible' | 'blur' | 'blind';
-type PlaybackMode = 'article' | 'sentence';
 type LoopSetting = number;
+type WordCursor = 'off' | 'underline' | 'reveal';
+type TimeSpan = { startTime: number; endTime: number };
+
+// With endless loops the ramp reaches native speed on this pass
+const RAMP_PASSES = 3;
+
+const PEEK_HOVER_DELAY = 250; // ms
+const PEEK_TAP_DURATION = 1500; // ms
+
+// Where the learner left off in a material and how they were practising it
+const loadResume = (material: Material) => {
+  const practice = loadPractice(material.id);
+  const segment = practice.resumeSegment ?? -1;
+  return {
+    time: practice.resumeTime ?? 0,
+    segment: segment < material.segments.length ? segment : -1,
+    viewMode: practice.viewMode ?? 'blur',
+    playbackMode: practice.playbackMode ?? 'sentence',
+  };
+};
+
+export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack, onUpdateMaterial }) => {
+  // Restored in the first render already, so nothing is saved over it before it is applied
+  const [resume] = useState(() => loadResume(material));
 
-export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   // Playback State
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
+  const [currentTime, setCurrentTime] = useState(resume.time);
   const [duration, setDuration] = useState(0);
-  const [activeIndex, setActiveIndex] = useState(-1);
+  const [activeIndex, setActiveIndex] = useState(resume.segment);
   const [isDragging, setIsDragging] = useState(false);
+  const [audioStatus, setAudioStatus] = useState<'loading' | 'ready' | 'error'>('loading');
   
   // Settings
-  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('sentence');
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>(resume.playbackMode);
   const [loopSetting, setLoopSetting] = useState<LoopSetting>(1);
-  const [viewMode, setViewMode] = useState<ViewMode>('blur');
+  const [viewMode, setViewMode] = useState<ViewMode>(resume.viewMode);
+  const [wordCursor, setWordCursor] = useState<WordCursor>('underline');
+  const [activeWord, setActiveWord] = useState<{ segment: number; word: number } | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [speedRamp, setSpeedRamp] = useState(false);
+  const [shadowGap, setShadowGap] = useState<ShadowGap>(DEFAULT_SHADOW_GAP);
+  const [loopPoints, setLoopPoints] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+  const [loopRanges, setLoopRanges] = useState<LoopRange[]>([]);
+  const [gapCountdown, setGapCountdown] = useState<{ endsAt: number; seconds: number } | null>(null);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  // Dictation: each sentence stays hidden until the learner has typed it and checked it
+  const [dictation, setDictation] = useState(false);
+  const [dictationAttempts, setDictationAttempts] = useState<Record<string, string>>({});
+
+  // Cloze: some words become fields to fill in while listening
+  const [clozeSettings, setClozeSettings] = useState<ClozeSettings>(DEFAULT_CLOZE);
+  const [clozeWords, setClozeWords] = useState<Record<string, number[]>>({});
+  const [clozeAnswers, setClozeAnswers] = useState<Record<string, ClozeAnswer>>({}); // By "segmentId:wordIndex"
+  const [pickingGaps, setPickingGaps] = useState(false);
+
+  // Peeks: one blurred word revealed on hover, tap or while the peek key is held
+  const [peek, setPeek] = useState<{ segment: number; word: number } | null>(null);
+  const [peekLog, setPeekLog] = useState<PeekLog>({});
+
+  // Role-play: the learner speaks one speaker's lines; playback stops at each of them and records
+  const [rolePlaySpeaker, setRolePlaySpeaker] = useState<string | null>(null);
+  const [rolePlayTurn, setRolePlayTurn] = useState<number | null>(null);
   
   // Recording State
   const [userRecordings, setUserRecordings] = useState<Record<string, Blob>>({});
   const [recordingState, setRecordingState] = useState<'inactive' | 'recording' | 'paused'>('inactive');
   const [isExporting, setIsExporting] = useState(false);
   const [isUserPlaying, setIsUserPlaying] = useState(false);
+  const [recordingScores, setRecordingScores] = useState<Record<string, PronunciationScores | null | 'scoring'>>({});
+
+  // Shadowing: takes recorded while the original plays, by segment id
+  const [shadowing, setShadowing] = useState(false);
+  const [shadowTakes, setShadowTakes] = useState<Record<string, ShadowTake>>({});
+  const [takePlayback, setTakePlayback] = useState<TakePlayback>('mixed');
+  const [shadowOffset, setShadowOffset] = useState(loadShadowOffset);
+  const [isTakePlaying, setIsTakePlaying] = useState(false);
 
   // Refs
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const playerRef = useRef<BufferPlayer | null>(null);
   const userAudioRef = useRef<HTMLAudioElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordingChunksRef = useRef<BlobPart[]>([]);
+  const scoredRecordingsRef = useRef<Record<string, Blob>>({}); // Recording each score in progress is for
+  const shadowRecorderRef = useRef<ShadowRecorder | null>(null); // Set while a shadowing take records
+  const shadowRunRef = useRef<{ segmentId: string; from: number; to: number; rate: number; playedAt: number | null } | null>(null);
+  const stopTakeRef = useRef<(() => void) | null>(null); // Stops the take playing back, if one is
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
-  const preciseCheckRef = useRef<number>();
+  const clockFrameRef = useRef<number>();
   const simulationRef = useRef<number | null>(null);
+  const gapTimerRef = useRef<number | null>(null); // Set while playback sits in a shadowing gap
   
   // Sync Refs
-  const activeIndexRef = useRef(-1);
+  const activeIndexRef = useRef(resume.segment);
   const playCountRef = useRef(0);
+  const activeWordRef = useRef<{ segment: number; word: number } | null>(null);
+  const shownTimeRef = useRef(resume.time); // Last time pushed to state by the clock
+  const lastTurnRef = useRef(-1); // Learner line handled last, so resuming past it doesn't stop again
+  const lastGapRef = useRef(-1); // Sentence whose trailing gap was taken last in article mode
+  const loopRangeRef = useRef<TimeSpan | null>(null); // Complete A–B range; overrides sentence and article playback
+  const resumeRef = useRef({ time: resume.time, segment: resume.segment }); // Position as of the last render, saved when leaving
+  const peekTimerRef = useRef<number | null>(null); // Hover dwell before a peek, or a tapped peek's hide delay
+  const peekHeldRef = useRef(false); // The peek key is down
+
+  // Per-word timings (aligner-provided or interpolated) for the guiding cursor
+  const wordTimings = useMemo(() => material.segments.map(getWordTimings), [material.segments]);
+  const clozeGaps = useMemo(() => pickClozeGaps(material.segments, clozeSettings, clozeWords), [material.segments, clozeSettings, clozeWords]);
+  const speakers = useMemo(() => listSpeakers(material.segments), [material.segments]);
+  // Summed from the checked attempts, so a retried sentence only counts with its latest check
+  const dictationTally = useMemo<DictationTally>(() => material.segments
+      .filter(seg => dictationAttempts[seg.id] !== undefined)
+      .reduce((tally, seg) => {
+          const result = checkDictation(seg.text, dictationAttempts[seg.id]);
+          return {
+              sentences: tally.sentences + 1,
+              correct: tally.correct + result.correct,
+              total: tally.total + result.total,
+              extra: tally.extra + result.extra,
+          };
+      }, { sentences: 0, correct: 0, total: 0, extra: 0 }), [material.segments, dictationAttempts]);
+  const isDialogue = speakers.length >= 2;
+
+  // Called every frame while playing; only re-renders when the spoken word changes
+  const updateActiveWord = (t: number) => {
+      const segIdx = material.segments.findIndex(s => t >= s.startTime && t < s.endTime);
+      const wordIdx = segIdx === -1 ? -1 : findWordIndex(wordTimings[segIdx], t);
+      const next = wordIdx === -1 ? null : { segment: segIdx, word: wordIdx };
+      const prev = activeWordRef.current;
+      if (prev?.segment === next?.segment && prev?.word === next?.word) return;
+      activeWordRef.current = next;
+      setActiveWord(next);
+  };
+
+  // Speed for the given pass over a sentence: the chosen speed, or a ramp from it up to 1.0x across the loops
+  const isLooping = playbackMode === 'sentence' || loopPoints.b !== null;
+  const rampAvailable = isLooping && loopSetting > 1 && playbackRate < 1;
+  const getPassRate = (pass: number) => {
+      if (!speedRamp || !rampAvailable) return playbackRate;
+      const passes = loopSetting === Infinity ? RAMP_PASSES : loopSetting;
+      return Math.min(1, playbackRate + (1 - playbackRate) * pass / (passes - 1));
+  };
+
+  // What a pass loops over: the A–B range when set, else the active sentence in sentence mode
+  const getLoopSpan = (idx: number): TimeSpan | null => {
+      if (loopRangeRef.current) return loopRangeRef.current;
+      return playbackMode === 'sentence' && idx !== -1 ? material.segments[idx] : null;
+  };
+
+  // Silence after a pass over `seg` played at `rate`
+  const getGapSeconds = (seg: TimeSpan, rate: number) => {
+      if (shadowGap.mode === 'fixed') return shadowGap.seconds;
+      if (shadowGap.mode === 'relative') return shadowGap.multiple * (seg.endTime - seg.startTime) / rate;
+      return 0;
+  };
+
+  // Index of the sentence article playback has just finished at `t`, if a gap should follow it
+  const findArticleGap = (t: number) => {
+      if (playbackMode !== 'article' || shadowGap.mode === 'off' || loopRangeRef.current) return -1;
+      const idx = material.segments.findIndex(s => t >= s.endTime - 0.05 && t < s.endTime + 0.25);
+      if (idx === -1 || idx === material.segments.length - 1 || idx === lastGapRef.current) return -1;
+      return idx;
+  };
+
+  // Holds playback for `seconds`, then continues with `resume`. The caller has already paused the clock;
+  // scheduled audio resumes by itself and only uses this for the countdown.
+  const startGap = (seconds: number, resume: () => void) => {
+      if (gapTimerRef.current) window.clearTimeout(gapTimerRef.current);
+      setGapCountdown({ endsAt: Date.now() + seconds * 1000, seconds });
+      gapTimerRef.current = window.setTimeout(() => {
+          gapTimerRef.current = null;
+          setGapCountdown(null);
+          resume();
+      }, seconds * 1000);
+  };
+
+  // Returns whether a gap was running, so callers that navigate can restart playback themselves
+  const cancelGap = () => {
+      lastGapRef.current = -1;
+      if (gapTimerRef.current === null) return false;
+      window.clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+      setGapCountdown(null);
+      return true;
+  };
+
+  // Index of the learner's line playing at `t`, if role-play should stop there
+  const findLearnerTurn = (t: number) => {
+      if (!rolePlaySpeaker) return -1;
+      const idx = material.segments.findIndex(s => s.speaker === rolePlaySpeaker && t >= s.startTime && t < s.endTime);
+      return idx === lastTurnRef.current ? -1 : idx;
+  };
 
   // --- Initialization ---
   useEffect(() => {
-    setActiveIndex(-1);
-    activeIndexRef.current = -1;
-    setCurrentTime(0);
+    const practice = loadPractice(material.id);
+    const resume = loadResume(material);
+    setActiveIndex(resume.segment);
+    activeIndexRef.current = resume.segment;
+    setCurrentTime(resume.time);
+    shownTimeRef.current = resume.time;
     setIsPlaying(false);
     playCountRef.current = 0;
+    activeWordRef.current = null;
+    setActiveWord(null);
     setUserRecordings({});
+    setRecordingScores({});
+    scoredRecordingsRef.current = {};
+    setShadowTakes({});
+    setRolePlaySpeaker(null);
+    setRolePlayTurn(null);
+    lastTurnRef.current = -1;
+    cancelGap();
+    setViewMode(resume.viewMode);
+    setPlaybackMode(resume.playbackMode);
+    setPlaybackRate(practice.playbackRate ?? 1);
+    setSpeedRamp(practice.speedRamp ?? false);
+    setShadowGap(practice.shadowGap ?? DEFAULT_SHADOW_GAP);
+    setDictation(practice.dictation ?? false);
+    setDictationAttempts(practice.dictationAttempts ?? {});
+    setClozeSettings(practice.cloze ?? DEFAULT_CLOZE);
+    setClozeWords(material.clozeWords ?? {});
+    setClozeAnswers({});
+    setPickingGaps(false);
+    setPeek(null);
+    setPeekLog(practice.peeks ?? {});
+    setLoopPoints({ a: null, b: null });
+    loopRangeRef.current = null;
+    setLoopRanges(material.loopRanges ?? []);
     segmentRefs.current = segmentRefs.current.slice(0, material.segments.length);
+    if (resume.segment !== -1) segmentRefs.current[resume.segment]?.scrollIntoView({ block: 'center' });
     
     if (!material.audioUrl) {
         const lastSeg = material.segments[material.segments.length - 1];
@@ -63,56 +273,210 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
     }
   }, [material]);
 
-  // --- Loop Logic ---
+  // --- Resume ---
+  // The modes are saved as they change; the position when a sentence starts, on pause and when leaving
+  resumeRef.current = { time: currentTime, segment: activeIndex };
+
+  useEffect(() => {
+    savePractice(material.id, { viewMode, playbackMode });
+  }, [viewMode, playbackMode]);
+
+  useEffect(() => {
+    savePractice(material.id, { resumeTime: currentTime, resumeSegment: activeIndex });
+  }, [activeIndex, isPlaying]);
+
+  useEffect(() => {
+    const save = () => savePractice(material.id, { resumeTime: resumeRef.current.time, resumeSegment: resumeRef.current.segment });
+    window.addEventListener('pagehide', save);
+    return () => {
+        window.removeEventListener('pagehide', save);
+        save();
+    };
+  }, [material.id]);
+
+  // --- Audio ---
+  // The recording is decoded up front: playback is scheduled on the audio clock from the decoded buffer
   useEffect(() => {
-    if (isPlaying && material.audioUrl) {
-      const check = () => {
-        if (audioRef.current) {
-           const t = audioRef.current.currentTime;
-           const idx = activeIndexRef.current;
-           
-           if (playbackMode === 'sentence' && idx !== -1) {
-               const seg = material.segments[idx];
-               // Buffer logic
-               if (t >= seg.endTime - 0.15) {
-                   playCountRef.current += 1;
-                   if (playCountRef.current < loopSetting) {
-                       audioRef.current.currentTime = seg.startTime;
-                   } else {
-                       audioRef.current.pause();
-                       audioRef.current.currentTime = seg.startTime;
-                       setCurrentTime(seg.startTime);
-                       setIsPlaying(false);
-                       playCountRef.current = 0;
-                   }
-               }
-           }
+    if (!material.audioUrl) return;
+    let cancelled = false;
+    setAudioStatus('loading');
+    fetch(material.audioUrl)
+      .then(res => res.blob())
+      .then(decodeAudioBlob)
+      .then(buffer => {
+          if (cancelled) return;
+          playerRef.current = new BufferPlayer(buffer);
+          playerRef.current.seek(resumeRef.current.time);
+          setDuration(buffer.duration);
+          setAudioStatus('ready');
+      })
+      .catch(e => {
+          if (cancelled) return;
+          console.error("Could not decode audio", e);
+          setAudioStatus('error');
+      });
+    return () => {
+        cancelled = true;
+        shadowRecorderRef.current?.cancel();
+        shadowRecorderRef.current = null;
+        shadowRunRef.current = null;
+        playerRef.current?.close();
+        playerRef.current = null;
+    };
+  }, [material.audioUrl]);
+
+  // --- Clock ---
+  // Only follows the scheduled audio for the progress bar and the word cursor; boundaries never depend on it
+  useEffect(() => {
+    if (!isPlaying || !material.audioUrl) return;
+    const tick = () => {
+        const player = playerRef.current;
+        if (player) {
+            const t = player.currentTime;
+            updateActiveWord(t);
+            if (!isDragging && Math.abs(t - shownTimeRef.current) >= 0.05) {
+                shownTimeRef.current = t;
+                setCurrentTime(t);
+            }
         }
-        preciseCheckRef.current = requestAnimationFrame(check);
-      };
-      preciseCheckRef.current = requestAnimationFrame(check);
-    }
+        clockFrameRef.current = requestAnimationFrame(tick);
+    };
+    clockFrameRef.current = requestAnimationFrame(tick);
     return () => {
-        if (preciseCheckRef.current) cancelAnimationFrame(preciseCheckRef.current);
+        if (clockFrameRef.current) cancelAnimationFrame(clockFrameRef.current);
     };
-  }, [isPlaying, playbackMode, loopSetting, material.audioUrl]);
+  }, [isPlaying, material.audioUrl, isDragging]);
+
+  // --- Scheduled Playback ---
+  // Lays out a run of the recording from `t`: passes over the loop span, or straight on, stopping
+  // for shadowing gaps and at the learner's lines in role-play
+  const planRun = (t: number): { first: PlaybackPiece; next: NextPiece; handlers: PlaybackHandlers } => {
+      const end = playerRef.current?.duration ?? duration;
+      const span = getLoopSpan(activeIndexRef.current);
+
+      if (span) {
+          const firstPass = playCountRef.current;
+          const pass = (k: number, from: number): PlaybackPiece => {
+              const rate = getPassRate(firstPass + k);
+              const isLast = firstPass + k + 1 >= loopSetting;
+              return { from, to: span.endTime, rate, pauseAfter: isLast ? 0 : getGapSeconds(span, rate) };
+          };
+          const from = t >= span.startTime && t < span.endTime - 0.05 ? t : span.startTime;
+          return {
+              first: pass(0, from),
+              next: (_, index) => firstPass + index + 1 < loopSetting ? pass(index + 1, span.startTime) : null,
+              handlers: {
+                  onPieceEnd: (piece) => {
+                      playCountRef.current += 1;
+                      if (piece.pauseAfter > 0) startGap(piece.pauseAfter, () => {});
+                  },
+                  onFinish: () => {
+                      playerRef.current?.seek(span.startTime);
+                      setCurrentTime(span.startTime);
+                      setIsPlaying(false);
+                      playCountRef.current = 0;
+                  }
+              }
+          };
+      }
+
+      const rate = getPassRate(playCountRef.current);
+      const turnStarts = rolePlaySpeaker ? material.segments.filter(s => s.speaker === rolePlaySpeaker).map(s => s.startTime) : [];
+      const gapAfter = playbackMode === 'article' && shadowGap.mode !== 'off' ? material.segments.slice(0, -1) : [];
+      const piece = (from: number): PlaybackPiece => {
+          const to = Math.min(end, ...turnStarts.filter(b => b > from + 0.01), ...gapAfter.map(s => s.endTime).filter(b => b > from + 0.01));
+          const finished = turnStarts.includes(to) ? undefined : gapAfter.find(s => s.endTime === to);
+          return { from, to, rate, pauseAfter: finished ? getGapSeconds(finished, rate) : 0 };
+      };
+      return {
+          first: piece(t),
+          next: (prev) => prev.to >= end || turnStarts.includes(prev.to) ? null : piece(prev.to),
+          handlers: {
+              onPieceEnd: (p) => {
+                  if (p.pauseAfter > 0) startGap(p.pauseAfter, () => {});
+              },
+              onFinish: (last) => {
+                  const turn = material.segments.findIndex(s => s.speaker === rolePlaySpeaker && s.startTime === last.to);
+                  if (rolePlaySpeaker && turn !== -1) {
+                      beginLearnerTurn(turn);
+                      return;
+                  }
+                  playerRef.current?.seek(0);
+                  setCurrentTime(0);
+                  setIsPlaying(false);
+              }
+          }
+      };
+  };
+
+  const startPlayback = (t: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      if (shadowRecorderRef.current) finishShadowTake();
+      stopTakePlayback();
+      const turn = findLearnerTurn(t);
+      if (turn !== -1) {
+          beginLearnerTurn(turn);
+          return;
+      }
+      const run = planRun(t);
+      player.play(run.first, run.next, run.handlers).catch(e => console.error("Playback error", e));
+      setIsPlaying(true);
+  };
+
+  const pausePlayback = () => {
+      if (shadowRecorderRef.current) return finishShadowTake();
+      const player = playerRef.current;
+      if (player) {
+          player.stop();
+          setCurrentTime(player.currentTime);
+      }
+      if (simulationRef.current) window.clearInterval(simulationRef.current);
+      cancelGap();
+      setIsPlaying(false);
+  };
+
+  // Runs are planned with the settings of the moment: re-plan from where playback is when they change.
+  // A shadowing take keeps the run it started with, since it is lined up against that run.
+  useEffect(() => {
+    if (isPlaying && !shadowRecorderRef.current) playFrom(getPosition());
+  }, [playbackMode, loopSetting, playbackRate, speedRamp, shadowGap, loopPoints, rolePlaySpeaker]);
 
 
   // --- Simulation Mode ---
   const startSimulation = (startTimeOffset: number) => {
     if (simulationRef.current) window.clearInterval(simulationRef.current);
-    const startTimestamp = Date.now() - (startTimeOffset * 1000);
+    const startTimestamp = Date.now();
+    const rate = getPassRate(playCountRef.current);
     
     simulationRef.current = window.setInterval(() => {
-        const newTime = (Date.now() - startTimestamp) / 1000;
-        
-        if (playbackMode === 'sentence' && activeIndexRef.current !== -1) {
-            const idx = activeIndexRef.current;
-            const seg = material.segments[idx];
+        const newTime = startTimeOffset + ((Date.now() - startTimestamp) / 1000) * rate;
+
+        const turn = findLearnerTurn(newTime);
+        if (turn !== -1) {
+            beginLearnerTurn(turn);
+            return;
+        }
 
+        const finished = findArticleGap(newTime);
+        if (finished !== -1) {
+            lastGapRef.current = finished;
+            if (simulationRef.current) window.clearInterval(simulationRef.current);
+            setCurrentTime(newTime);
+            startGap(getGapSeconds(material.segments[finished], rate), () => startSimulation(newTime));
+            return;
+        }
+        
+        const seg = getLoopSpan(activeIndexRef.current);
+        if (seg) {
             if (newTime >= seg.endTime) {
                  playCountRef.current += 1;
-                 if (playCountRef.current < loopSetting) {
+                 const gap = getGapSeconds(seg, rate);
+                 if (playCountRef.current < loopSetting && gap > 0) {
+                     if (simulationRef.current) window.clearInterval(simulationRef.current);
+                     setCurrentTime(seg.startTime);
+                     startGap(gap, () => startSimulation(seg.startTime));
+                 } else if (playCountRef.current < loopSetting) {
                      startSimulation(seg.startTime);
                  } else {
                      if (simulationRef.current) window.clearInterval(simulationRef.current);
@@ -130,33 +494,77 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
             if (simulationRef.current) window.clearInterval(simulationRef.current);
         } else {
             setCurrentTime(newTime);
+            updateActiveWord(newTime);
         }
     }, 100);
   };
 
+  // --- Role-play ---
+  // Stops the original at the learner's line and records them saying it
+  const beginLearnerTurn = (idx: number) => {
+      lastTurnRef.current = idx;
+      cancelGap();
+      playerRef.current?.seek(material.segments[idx].startTime);
+      if (simulationRef.current) window.clearInterval(simulationRef.current);
+      setIsPlaying(false);
+      activeIndexRef.current = idx;
+      setActiveIndex(idx);
+      setCurrentTime(material.segments[idx].startTime);
+      setRolePlayTurn(idx);
+      startRecording();
+  };
+
+  // Keeps the take and lets the other speakers continue after the learner's line
+  const finishLearnerTurn = () => {
+      if (rolePlayTurn === null) return;
+      stopRecording();
+      setRolePlayTurn(null);
+      playFrom(material.segments[rolePlayTurn].endTime);
+  };
+
+  // Leaving a turn by navigating away: the take so far is kept, the line can be tried again
+  const cancelLearnerTurn = () => {
+      lastTurnRef.current = -1;
+      if (rolePlayTurn === null) return;
+      stopRecording();
+      setRolePlayTurn(null);
+  };
+
+  const cycleRolePlay = () => {
+      cancelLearnerTurn();
+      setRolePlaySpeaker(prev => {
+          const next = prev === null ? 0 : speakers.indexOf(prev) + 1;
+          return next < speakers.length ? speakers[next] : null;
+      });
+      setPlaybackMode('article'); // Role-play follows the conversation instead of looping one line
+  };
+
   // --- Playback Controls ---
   const togglePlay = () => {
+    if (rolePlayTurn !== null) {
+        finishLearnerTurn();
+        return;
+    }
+
     if (isUserPlaying && userAudioRef.current) {
         userAudioRef.current.pause();
         setIsUserPlaying(false);
     }
 
     if (material.audioUrl) {
-      if (!audioRef.current) return;
+      const player = playerRef.current;
+      if (!player) return;
       
       if (isPlaying) {
-        audioRef.current.pause();
-        setIsPlaying(false);
+        pausePlayback();
       } else {
         // Stop recording if playing starts
         if (recordingState !== 'inactive') stopRecording();
-        audioRef.current.play().catch(e => console.error("Playback error", e));
-        setIsPlaying(true);
+        startPlayback(player.currentTime);
       }
     } else {
       if (isPlaying) {
-        if (simulationRef.current) window.clearInterval(simulationRef.current);
-        setIsPlaying(false);
+        pausePlayback();
       } else {
         setIsPlaying(true);
         startSimulation(currentTime);
@@ -166,40 +574,34 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   
   const replayCurrent = () => {
       if (activeIndexRef.current === -1) return;
-      const targetTime = material.segments[activeIndexRef.current].startTime;
       playCountRef.current = 0;
-      
-      if (material.audioUrl && audioRef.current) {
-          audioRef.current.currentTime = targetTime;
-          setCurrentTime(targetTime);
-          if (!isPlaying) {
-              audioRef.current.play();
-              setIsPlaying(true);
-          }
-      } else if (!material.audioUrl) {
-          startSimulation(targetTime);
-          setIsPlaying(true);
-      }
+      playFrom(material.segments[activeIndexRef.current].startTime);
   };
 
-  const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      if (!isDragging) {
-        setCurrentTime(audioRef.current.currentTime);
+  // Moves the playhead; playing runs are re-planned from there, once a drag is released
+  const seekTo = (time: number) => {
+      if (isPlaying) {
+          playFrom(time);
+          return;
       }
-      setDuration(audioRef.current.duration);
-    }
+      playerRef.current?.seek(time);
+      setCurrentTime(time);
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
       const time = parseFloat(e.target.value);
-      setCurrentTime(time);
-      if (audioRef.current) {
-          audioRef.current.currentTime = time;
-      }
+      if (isDragging) setCurrentTime(time);
+      else seekTo(time);
+  };
+
+  const endDrag = () => {
+      setIsDragging(false);
+      seekTo(currentTime);
   };
 
   const skipToSegment = (direction: 'prev' | 'next') => {
+      cancelLearnerTurn();
+      cancelGap();
       let targetIndex = activeIndexRef.current;
       
       if (targetIndex === -1) {
@@ -225,25 +627,62 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       setActiveIndex(targetIndex);
       playCountRef.current = 0;
       
-      const targetTime = material.segments[targetIndex]?.startTime ?? 0;
-      setCurrentTime(targetTime);
-      
-      if (material.audioUrl && audioRef.current) {
-          audioRef.current.currentTime = targetTime;
-          audioRef.current.play();
-          setIsPlaying(true);
-      } else if (!material.audioUrl) {
-          startSimulation(targetTime);
+      playFrom(material.segments[targetIndex]?.startTime ?? 0);
+  };
+
+  // --- A–B Loop ---
+  const applyLoopPoints = (a: number | null, b: number | null) => {
+      setLoopPoints({ a, b });
+      loopRangeRef.current = a !== null && b !== null ? { startTime: a, endTime: b } : null;
+      playCountRef.current = 0;
+  };
+
+  const playFrom = (time: number) => {
+      cancelGap();
+      setCurrentTime(time);
+      if (material.audioUrl) {
+          startPlayback(time);
+      } else {
+          startSimulation(time);
           setIsPlaying(true);
       }
   };
 
-  const seekRelative = (seconds: number) => {
-      if (audioRef.current) {
-          const newTime = Math.max(0, Math.min(audioRef.current.duration, audioRef.current.currentTime + seconds));
-          audioRef.current.currentTime = newTime;
-          setCurrentTime(newTime);
+  const getPosition = () => playerRef.current ? playerRef.current.currentTime : currentTime;
+
+  // A marks the start; setting B completes the range and starts looping it from A
+  const setLoopPoint = (point: 'a' | 'b') => {
+      const t = getPosition();
+      if (point === 'a') {
+          applyLoopPoints(t, loopPoints.b !== null && loopPoints.b > t ? loopPoints.b : null);
+          return;
       }
+      if (loopPoints.a === null || t - loopPoints.a < 0.2) return;
+      applyLoopPoints(loopPoints.a, t);
+      playFrom(loopPoints.a);
+  };
+
+  const clearLoopPoints = () => applyLoopPoints(null, null);
+
+  const selectLoopRange = (range: LoopRange) => {
+      applyLoopPoints(range.startTime, range.endTime);
+      playFrom(range.startTime);
+  };
+
+  const updateLoopRanges = (ranges: LoopRange[]) => {
+      setLoopRanges(ranges);
+      onUpdateMaterial({ ...material, loopRanges: ranges, clozeWords });
+  };
+
+  const saveLoopRange = (name: string) => {
+      const range = loopRangeRef.current;
+      if (!range) return;
+      updateLoopRanges([...loopRanges, { id: `range-${Date.now()}`, name, ...range }]);
+  };
+
+  const seekRelative = (seconds: number) => {
+      const player = playerRef.current;
+      if (player) seekTo(Math.max(0, Math.min(player.duration, player.currentTime + seconds)));
   };
 
   // --- Helper Icons/Labels ---
@@ -251,68 +690,161 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       setViewMode(prev => {
           if (prev === 'visible') return 'blur';
           if (prev === 'blur') return 'blind';
+          if (prev === 'blind') return 'cloze'; // Some words back before the whole text
           return 'visible';
       });
   };
 
+  const cycleWordCursor = () => {
+      setWordCursor(prev => {
+          if (prev === 'off') return 'underline';
+          if (prev === 'underline') return 'reveal';
+          return 'off';
+      });
+  };
+
   // --- Keyboard Shortcuts (Moved after function definitions) ---
   useEffect(() => {
+      const actions: Record<KeyAction, () => void> = {
+          togglePlay,
+          replay: replayCurrent,
+          previousSentence: () => skipToSegment('prev'),
+          nextSentence: () => skipToSegment('next'),
+          rewind: () => seekRelative(-2),
+          forward: () => seekRelative(2),
+          slower: () => changePlaybackRate(Math.round((playbackRate - 0.05) * 100) / 100),
+          faster: () => changePlaybackRate(Math.round((playbackRate + 0.05) * 100) / 100),
+          cycleViewMode,
+          cycleWordCursor,
+          peekWord: peekSpokenWord,
+          toggleDictation,
+          showShortcuts: () => setShowShortcuts(true),
+          togglePlaybackMode: () => setPlaybackMode(m => m === 'article' ? 'sentence' : 'article'),
+          cycleLoopCount: cycleLoopSetting,
+          setLoopStart: () => setLoopPoint('a'),
+          setLoopEnd: () => setLoopPoint('b'),
+          clearLoop: clearLoopPoints,
+          toggleShadowing,
+          record: handleRecordButton,
+          stopRecording: rolePlayTurn !== null ? finishLearnerTurn : stopRecording,
+          playRecording: shadowing ? playShadowTake : playUserRecording,
+          cycleRolePlay: () => isDialogue && cycleRolePlay(),
+      };
+
       const handleKeyDown = (e: KeyboardEvent) => {
+          if (showShortcuts) return; // The overlay takes the keys while it is open
           if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
 
-          // Play/Pause
-          if (e.code === 'Space') { 
-              e.preventDefault(); 
-              togglePlay(); 
-          }
-          // Replay
-          if (e.key === 'Control') { 
-              e.preventDefault(); 
-              replayCurrent(); 
-          }
-          // View Mode
-          if (e.code === 'ArrowUp') { 
-              e.preventDefault(); 
-              cycleViewMode(); 
-          }
-          
-          // Navigation & Seeking
-          if (e.code === 'ArrowLeft') { 
-              e.preventDefault(); 
-              if (e.shiftKey) {
-                  seekRelative(-2); // Shift + Left = Rewind 2s
-              } else {
-                  skipToSegment('prev'); 
-              }
-          }
-          if (e.code === 'ArrowRight') { 
-              e.preventDefault(); 
-              if (e.shiftKey) {
-                  seekRelative(2); // Shift + Right = Forward 2s
-              } else {
-                  skipToSegment('next'); 
-              }
-          }
+          const binding = bindingFromEvent(e);
+          const action = binding && findAction(keymap, binding);
+          if (!action) return;
+          e.preventDefault();
+          if (e.repeat && action === 'peekWord') return; // One peek per hold
+          actions[action]();
+      };
+      // A held peek lasts until any key is let go: the modifiers of its binding may be released first
+      const handleKeyUp = () => {
+          if (!peekHeldRef.current) return;
+          peekHeldRef.current = false;
+          hidePeek();
       };
       window.addEventListener('keydown', handleKeyDown);
-      return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [material.audioUrl, isPlaying, viewMode, activeIndex, playbackMode]); // Added deps
+      window.addEventListener('keyup', handleKeyUp);
+      return () => {
+          window.removeEventListener('keydown', handleKeyDown);
+          window.removeEventListener('keyup', handleKeyUp);
+      };
+  }, [material.audioUrl, isPlaying, viewMode, activeIndex, playbackMode, rolePlaySpeaker, rolePlayTurn, recordingState, loopPoints, currentTime, playbackRate, userRecordings, keymap, showShortcuts, dictation, peekLog, activeWord, shadowing, shadowTakes, isTakePlaying, takePlayback, shadowOffset]); // Added deps
 
+  const saveShortcuts = (next: Keymap) => {
+      saveKeymap(next);
+      setKeymap(next);
+      setShowShortcuts(false);
+  };
+
+  // " (Shift + ←)" for button tooltips, following the user's keymap
+  const shortcutHint = (action: KeyAction) => {
+      const binding = keymap[action];
+      return binding ? ` (${formatBinding(binding).join(' + ')})` : '';
+  };
+
+
+  // --- Media Session: headset buttons and lock-screen controls ---
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      const metadata = new MediaMetadata({ title: material.title, artist: 'LeadYouth', album: material.category });
+      navigator.mediaSession.metadata = metadata;
+
+      // The library shows a generated cover when there is no image; the lock screen gets the same one
+      let coverUrl: string | null = null;
+      let cancelled = false;
+      if (material.imageUrl) {
+          metadata.artwork = [{ src: material.imageUrl }];
+      } else {
+          renderCoverArt(material.title)
+            .then(url => {
+                if (cancelled) return URL.revokeObjectURL(url);
+                coverUrl = url;
+                metadata.artwork = [{ src: url, sizes: '512x512', type: 'image/png' }];
+            })
+            .catch(e => console.warn("Could not render cover art", e));
+      }
+
+      return () => {
+          cancelled = true;
+          navigator.mediaSession.metadata = null;
+          if (coverUrl) URL.revokeObjectURL(coverUrl);
+      };
+  }, [material.id, material.title, material.imageUrl]);
+
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+          ['play', () => { if (!isPlaying) togglePlay(); }],
+          ['pause', () => { if (isPlaying) togglePlay(); }],
+          ['previoustrack', () => skipToSegment('prev')],
+          ['nexttrack', () => skipToSegment('next')],
+          ['seekbackward', (details) => seekRelative(-(details.seekOffset ?? 2))],
+          ['seekforward', (details) => seekRelative(details.seekOffset ?? 2)],
+          ['seekto', (details) => { if (details.seekTime !== undefined) seekTo(details.seekTime); }],
+      ];
+      actions.forEach(([action, handler]) => {
+          try {
+              navigator.mediaSession.setActionHandler(action, handler);
+          } catch {
+              // Older browsers reject actions they don't know
+          }
+      });
+      return () => actions.forEach(([action]) => {
+          try { navigator.mediaSession.setActionHandler(action, null); } catch { /* unsupported */ }
+      });
+  }, [material.audioUrl, isPlaying, activeIndex, playbackMode, rolePlaySpeaker, rolePlayTurn, recordingState, loopPoints, currentTime]);
+
+  // Position state extrapolates between updates, so once a second (and on every jump) is enough
+  const wholeSecond = Math.floor(currentTime);
+  useEffect(() => {
+      if (!('mediaSession' in navigator)) return;
+      navigator.mediaSession.playbackState = isPlaying ? 'playing' : 'paused';
+      if (!duration || !navigator.mediaSession.setPositionState) return;
+      try {
+          navigator.mediaSession.setPositionState({
+              duration,
+              playbackRate: getPassRate(playCountRef.current),
+              position: Math.min(duration, Math.max(0, getPosition())),
+          });
+      } catch (e) {
+          console.warn("Could not update media position", e);
+      }
+  }, [isPlaying, duration, wholeSecond, playbackRate]);
 
   const handleSegmentClick = (segment: Segment) => {
+      cancelLearnerTurn();
+      cancelGap();
       const idx = material.segments.findIndex(s => s.id === segment.id);
       activeIndexRef.current = idx;
       setActiveIndex(idx);
       playCountRef.current = 0;
-
-      if (audioRef.current) {
-          audioRef.current.currentTime = segment.startTime;
-          audioRef.current.play();
-          setIsPlaying(true);
-      } else if (!material.audioUrl) {
-          startSimulation(segment.startTime);
-          setIsPlaying(true);
-      }
+      playFrom(segment.startTime);
   };
 
   // --- Scroll Sync ---
@@ -334,7 +866,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   useEffect(() => {
     return () => {
       if (simulationRef.current) window.clearInterval(simulationRef.current);
-      if (preciseCheckRef.current) cancelAnimationFrame(preciseCheckRef.current);
+      if (clockFrameRef.current) cancelAnimationFrame(clockFrameRef.current);
+      if (gapTimerRef.current) window.clearTimeout(gapTimerRef.current);
     };
   }, []);
 
@@ -349,6 +882,11 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   };
 
   const handleRecordButton = async () => {
+      if (shadowing) {
+          if (shadowRecorderRef.current) finishShadowTake();
+          else await startShadowTake();
+          return;
+      }
       if (activeIndex === -1) return;
 
       if (recordingState === 'inactive') {
@@ -371,6 +909,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
           const mediaRecorder = options.mimeType ? new MediaRecorder(stream, options) : new MediaRecorder(stream);
           
           recordingChunksRef.current = []; 
+          // The take belongs to the segment active when recording started, even if playback has moved on when it stops
+          const currentSegId = material.segments[activeIndexRef.current].id;
 
           mediaRecorder.ondataavailable = (e) => {
               if (e.data.size > 0) recordingChunksRef.current.push(e.data);
@@ -378,8 +918,8 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
 
           mediaRecorder.onstop = () => {
               const blob = new Blob(recordingChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
-              const currentSegId = material.segments[activeIndexRef.current].id;
               setUserRecordings(prev => ({ ...prev, [currentSegId]: blob }));
+              scoreRecording(currentSegId, blob);
               stream.getTracks().forEach(track => track.stop());
               recordingChunksRef.current = [];
           };
@@ -394,22 +934,35 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   };
 
   const stopRecording = () => {
+      if (shadowRecorderRef.current) return finishShadowTake();
       if (mediaRecorderRef.current && recordingState !== 'inactive') {
           mediaRecorderRef.current.stop();
           setRecordingState('inactive');
       }
   };
 
+  // Compares a recording with its segment of the original in the background; a newer take of the
+  // same segment supersedes the score of an older one still being worked out
+  const scoreRecording = (segmentId: string, blob: Blob) => {
+      const player = playerRef.current;
+      const seg = material.segments.find(s => s.id === segmentId);
+      if (!player || !seg) return;
+      scoredRecordingsRef.current[segmentId] = blob;
+      setRecordingScores(prev => ({ ...prev, [segmentId]: 'scoring' }));
+      scorePronunciation(blob, player.buffer, seg.startTime, seg.endTime).then(scores => {
+          if (scoredRecordingsRef.current[segmentId] !== blob) return;
+          delete scoredRecordingsRef.current[segmentId];
+          setRecordingScores(prev => ({ ...prev, [segmentId]: scores }));
+      });
+  };
+
   const playUserRecording = () => {
       if (activeIndex === -1) return;
       const segId = material.segments[activeIndex].id;
       const blob = userRecordings[segId];
       if (!blob) return;
 
-      if (isPlaying && audioRef.current) {
-          audioRef.current.pause();
-          setIsPlaying(false);
-      }
+      if (isPlaying) pausePlayback();
 
       const url = URL.createObjectURL(blob);
       if (userAudioRef.current) {
@@ -429,6 +982,122 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       const newRecs = { ...userRecordings };
       delete newRecs[segId];
       setUserRecordings(newRecs);
+      const newScores = { ...recordingScores };
+      delete newScores[segId];
+      setRecordingScores(newScores);
+      delete scoredRecordingsRef.current[segId];
+  };
+
+  // --- Shadowing Takes ---
+  // The microphone records while the original plays, on the player's own AudioContext so the take can be
+  // lined up with the run afterwards. A sentence (or the A–B range) is shadowed from its start; in article
+  // mode the take runs from the current position to the last sentence end within MAX_TAKE_SECONDS, or until stopped.
+  const startShadowTake = async () => {
+      const player = playerRef.current;
+      if (!player) return;
+      pausePlayback();
+      stopTakePlayback();
+
+      let stream: MediaStream;
+      try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (err) {
+          console.error("Mic access denied or error", err);
+          alert("Could not access microphone. Please check permissions.");
+          return;
+      }
+
+      const span = getLoopSpan(activeIndexRef.current);
+      const from = span ? span.startTime : player.currentTime;
+      const limit = Math.min(player.duration, from + MAX_TAKE_SECONDS);
+      const sentenceEnds = material.segments.map(s => s.endTime).filter(t => t > from + 0.1 && t <= limit);
+      const to = span ? Math.min(span.endTime, limit) : sentenceEnds.length > 0 ? Math.max(...sentenceEnds) : limit;
+      // The take belongs to the sentence it starts in
+      const index = material.segments.findIndex(s => from < s.endTime);
+      if (index === -1 || to - from < 0.1) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+      }
+
+      const recorder = new ShadowRecorder(player.context, stream);
+      recorder.start();
+      shadowRecorderRef.current = recorder;
+      shadowRunRef.current = { segmentId: material.segments[index].id, from, to, rate: playbackRate, playedAt: null };
+      setRecordingState('recording');
+      setIsPlaying(true);
+      try {
+          const playedAt = await player.play({ from, to, rate: playbackRate, pauseAfter: 0 }, () => null, { onFinish: () => finishShadowTake() });
+          if (shadowRunRef.current) shadowRunRef.current.playedAt = playedAt;
+      } catch (e) {
+          console.error("Playback error", e);
+          finishShadowTake();
+      }
+  };
+
+  // Runs from the player's finish handler too, so it only goes through refs
+  const finishShadowTake = () => {
+      const recorder = shadowRecorderRef.current;
+      const run = shadowRunRef.current;
+      const player = playerRef.current;
+      shadowRecorderRef.current = null;
+      shadowRunRef.current = null;
+      if (!recorder || !run || !player) return;
+
+      const end = Math.min(run.to, player.currentTime);
+      player.stop();
+      setCurrentTime(player.currentTime);
+      setIsPlaying(false);
+      setRecordingState('inactive');
+      const capture = recorder.stop();
+      if (run.playedAt === null || end - run.from < 0.1) return; // Stopped before the original got going
+
+      const take = createTake(capture, run.playedAt, player.outputLatency + recorder.inputLatency, run.from, end, run.rate);
+      setShadowTakes(prev => ({ ...prev, [run.segmentId]: take }));
+  };
+
+  const stopTakePlayback = () => {
+      if (!stopTakeRef.current) return;
+      stopTakeRef.current();
+      stopTakeRef.current = null;
+      setIsTakePlaying(false);
+  };
+
+  const playShadowTake = () => {
+      if (isTakePlaying) return stopTakePlayback();
+      const player = playerRef.current;
+      const take = activeIndex !== -1 ? shadowTakes[material.segments[activeIndex].id] : undefined;
+      if (!player || !take) return;
+      pausePlayback();
+
+      stopTakeRef.current = playTake(player.context, player.buffer, take, takePlayback, shadowOffset, () => {
+          stopTakeRef.current = null;
+          setIsTakePlaying(false);
+      });
+      setIsTakePlaying(true);
+  };
+
+  const changeTakePlayback = (playback: TakePlayback) => {
+      stopTakePlayback();
+      setTakePlayback(playback);
+  };
+
+  const changeShadowOffset = (ms: number) => {
+      stopTakePlayback();
+      setShadowOffset(ms);
+      saveShadowOffset(ms);
+  };
+
+  const deleteShadowTake = () => {
+      if (activeIndex === -1) return;
+      stopTakePlayback();
+      const takes = { ...shadowTakes };
+      delete takes[material.segments[activeIndex].id];
+      setShadowTakes(takes);
+  };
+
+  const toggleShadowing = () => {
+      if (!material.audioUrl || recordingState !== 'inactive') return;
+      setShadowing(s => !s);
   };
 
   const handleExport = async () => {
@@ -465,11 +1134,124 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   const getViewModeIcon = () => {
       if (viewMode === 'visible') return <Eye size={20} />;
       if (viewMode === 'blur') return <AlignJustify size={20} />;
+      if (viewMode === 'cloze') return <TextCursorInput size={20} />;
       return <EyeOff size={20} />;
   };
 
+  const changePlaybackRate = (rate: number) => {
+      const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+      setPlaybackRate(clamped);
+      savePractice(material.id, { playbackRate: clamped });
+  };
+
+  const toggleSpeedRamp = () => {
+      const next = !speedRamp;
+      setSpeedRamp(next);
+      savePractice(material.id, { speedRamp: next });
+  };
+
+  const changeShadowGap = (gap: ShadowGap) => {
+      setShadowGap(gap);
+      savePractice(material.id, { shadowGap: gap });
+  };
+
+  const toggleDictation = () => {
+      const next = !dictation;
+      setDictation(next);
+      savePractice(material.id, { dictation: next });
+  };
+
+  const updateDictationAttempts = (attempts: Record<string, string>) => {
+      setDictationAttempts(attempts);
+      savePractice(material.id, { dictationAttempts: attempts });
+  };
+
+  const checkDictationAttempt = (seg: Segment, typed: string) => {
+      updateDictationAttempts({ ...dictationAttempts, [seg.id]: typed });
+  };
+
+  const retryDictation = (seg: Segment) => {
+      const attempts = { ...dictationAttempts };
+      delete attempts[seg.id];
+      updateDictationAttempts(attempts);
+  };
+
+  const changeClozeSettings = (settings: ClozeSettings) => {
+      setClozeSettings(settings);
+      savePractice(material.id, { cloze: settings });
+      if (settings.strategy !== 'teacher') setPickingGaps(false);
+  };
+
+  // Teacher's picks are part of the material, like saved loop ranges
+  const toggleClozeWord = (seg: Segment, wordIdx: number) => {
+      const picked = clozeWords[seg.id] ?? [];
+      const next = picked.includes(wordIdx) ? picked.filter(i => i !== wordIdx) : [...picked, wordIdx].sort((a, b) => a - b);
+      const words = { ...clozeWords, [seg.id]: next };
+      setClozeWords(words);
+      onUpdateMaterial({ ...material, loopRanges, clozeWords: words });
+  };
+
+  const answerCloze = (key: string, value: string, status: ClozeAnswer['status'] = 'open') => {
+      setClozeAnswers(prev => ({ ...prev, [key]: { value, status } }));
+  };
+
+  const checkCloze = (key: string, expected: string) => {
+      setClozeAnswers(prev => {
+          const value = prev[key]?.value ?? '';
+          if (!value.trim()) return prev;
+          return { ...prev, [key]: { value, status: isClozeAnswer(expected, value) ? 'correct' : 'wrong' } };
+      });
+  };
+
+  // --- Peeks ---
+  const revealWord = (segment: number, word: number) => {
+      if (peekTimerRef.current) window.clearTimeout(peekTimerRef.current);
+      peekTimerRef.current = null;
+      setPeek({ segment, word });
+      const log = addPeek(peekLog, material.segments[segment].id, word);
+      setPeekLog(log);
+      savePractice(material.id, { peeks: log });
+  };
+
+  const hidePeek = () => {
+      if (peekTimerRef.current) window.clearTimeout(peekTimerRef.current);
+      peekTimerRef.current = null;
+      setPeek(null);
+  };
+
+  // Hovering counts once the pointer rests on the word, not while it sweeps across the text
+  const hoverWord = (segment: number, word: number) => {
+      if (peekTimerRef.current) window.clearTimeout(peekTimerRef.current);
+      peekTimerRef.current = window.setTimeout(() => revealWord(segment, word), PEEK_HOVER_DELAY);
+  };
+
+  // Taps have no hover to end them, so the word blurs again by itself
+  const tapWord = (segment: number, word: number) => {
+      if (peek?.segment === segment && peek.word === word) return hidePeek();
+      revealWord(segment, word);
+      peekTimerRef.current = window.setTimeout(() => setPeek(null), PEEK_TAP_DURATION);
+  };
+
+  const peekSpokenWord = () => {
+      if (viewMode !== 'blur' || !activeWord) return;
+      peekHeldRef.current = true;
+      revealWord(activeWord.segment, activeWord.word);
+  };
+
+  const showPeekedWord = (word: PeekedWord) => {
+      segmentRefs.current[word.segmentIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setPeek({ segment: word.segmentIndex, word: word.wordIndex });
+      if (peekTimerRef.current) window.clearTimeout(peekTimerRef.current);
+      peekTimerRef.current = window.setTimeout(() => setPeek(null), PEEK_TAP_DURATION);
+  };
+
+  const clearPeekLog = () => {
+      setPeekLog({});
+      savePractice(material.id, { peeks: {} });
+  };
+
   const cycleLoopSetting = () => {
-      if (playbackMode !== 'sentence') return;
+      if (!isLooping) return;
       setLoopSetting(prev => {
           if (prev === 1) return 2;
           if (prev === 2) return 3;
@@ -479,7 +1261,90 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   };
 
   // --- Render ---
+  const renderSegmentText = (seg: Segment, index: number) => {
+      const spokenWord = wordCursor !== 'off' && activeWord?.segment === index ? activeWord.word : -1;
+      // In role-play the learner reads their own lines, whatever the view mode; dictation hides what is still to be typed
+      const mode: ViewMode = rolePlaySpeaker !== null && seg.speaker === rolePlaySpeaker ? 'visible' : dictation ? 'blind' : viewMode;
+      let wordIdx = -1;
+
+      return seg.text.split(/(\s+)/).map((part, i) => {
+          if (part.trim()) wordIdx++;
+          const isCurrentWord = part.trim() !== '' && wordIdx === spokenWord;
+          let className = "";
+
+          if (mode === 'cloze' && part.trim()) {
+              const isGap = clozeGaps[index].has(wordIdx);
+              const [lead, word, trail] = splitPunctuation(part);
+              const wordNumber = wordIdx;
+              if (pickingGaps) {
+                  return (
+                      <span
+                        key={i}
+                        onClick={(e) => { e.stopPropagation(); toggleClozeWord(seg, wordNumber); }}
+                        className={`cursor-pointer border-b-2 border-dashed transition-colors ${isGap ? 'border-[#d44c47] text-[#d44c47]' : 'border-transparent hover:border-zinc-600'}`}
+                      >
+                          {part}
+                      </span>
+                  );
+              }
+              if (isGap && word) {
+                  const key = `${seg.id}:${wordNumber}`;
+                  return (
+                      <span key={i}>
+                          {lead}
+                          <ClozeGap
+                            expected={word}
+                            answer={clozeAnswers[key]}
+                            onChange={(value) => answerCloze(key, value)}
+                            onCheck={() => checkCloze(key, word)}
+                            onReveal={() => answerCloze(key, clozeAnswers[key]?.value ?? '', 'revealed')}
+                          />
+                          {trail}
+                      </span>
+                  );
+              }
+          }
+
+          if (mode === 'blind') {
+              className = "bg-zinc-800 text-zinc-800 rounded-sm select-none";
+          } else if (mode === 'blur') {
+              const isPeeked = part.trim() !== '' && peek?.segment === index && peek.word === wordIdx;
+              // Guiding cursor: underline the spoken word under the blur, or lift the blur off just that word
+              if (isPeeked) className = "text-white bg-zinc-800 rounded-sm transition-colors";
+              else if (isCurrentWord && wordCursor === 'reveal') className = "text-white border-b-2 border-[#d44c47] transition-colors";
+              else if (isCurrentWord) className = "structure-blur text-transparent text-shadow-white border-b-2 border-[#d44c47]";
+              else className = "structure-blur text-transparent text-shadow-white";
+          } else if (spokenWord !== -1) {
+              // Karaoke: spoken words stay bright, upcoming words are dimmed
+              if (isCurrentWord) className = "text-white border-b-2 border-[#d44c47]";
+              else if (wordIdx > spokenWord) className = "text-zinc-400";
+          }
+
+          if (mode === 'blur' && part.trim()) {
+              const wordNumber = wordIdx;
+              return (
+                  <span
+                    key={i}
+                    className={className}
+                    onMouseEnter={() => hoverWord(index, wordNumber)}
+                    onMouseLeave={hidePeek}
+                    onClick={(e) => { e.stopPropagation(); tapWord(index, wordNumber); }}
+                  >
+                      {part}
+                  </span>
+              );
+          }
+
+          return <span key={i} className={className}>{part}</span>;
+      });
+  };
+
+  const clozeGapCount = clozeGaps.reduce((n, gaps) => n + gaps.size, 0);
+  const clozeCorrectCount = material.segments.reduce(
+      (n, seg, i) => n + [...clozeGaps[i]].filter(w => clozeAnswers[`${seg.id}:${w}`]?.status === 'correct').length, 0
+  );
   const hasCurrentRecording = activeIndex !== -1 && !!userRecordings[material.segments[activeIndex]?.id];
+  const hasCurrentTake = activeIndex !== -1 && !!shadowTakes[material.segments[activeIndex]?.id];
   const formatTime = (t: number) => {
       const mins = Math.floor(t / 60);
       const secs = Math.floor(t % 60);
@@ -489,16 +1354,12 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
   return (
     <div className="fixed inset-0 z-50 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
       
-      {material.audioUrl && (
-        <audio
-          ref={audioRef}
-          src={material.audioUrl}
-          onTimeUpdate={handleTimeUpdate}
-          onEnded={() => setIsPlaying(false)}
-        />
-      )}
       <audio ref={userAudioRef} />
 
+      {showShortcuts && (
+        <ShortcutsOverlay keymap={keymap} onClose={() => setShowShortcuts(false)} onSave={saveShortcuts} />
+      )}
+
       {/* --- Top Navbar --- */}
       <header className="flex-none px-4 py-4 md:px-6 flex items-center justify-between z-10 bg-[#09090b] border-b border-zinc-800">
         <button 
@@ -510,13 +1371,66 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
         </button>
         
         <div className="flex items-center gap-2">
+            {isDialogue && (
+                <button 
+                    onClick={cycleRolePlay}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-full transition-all hover:bg-zinc-800 ${rolePlaySpeaker ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+                    title="Role-play: speak one speaker's lines yourself"
+                >
+                    <Users size={20} />
+                    {rolePlaySpeaker && (
+                        <span className="text-xs font-bold uppercase tracking-wider" style={{ color: getSpeakerColor(speakers, rolePlaySpeaker) }}>
+                            {rolePlaySpeaker}
+                        </span>
+                    )}
+                </button>
+            )}
+            {(viewMode === 'blur' || Object.keys(peekLog).length > 0) && (
+                <PeekLogMenu words={listPeekedWords(material.segments, peekLog)} onSelect={showPeekedWord} onClear={clearPeekLog} />
+            )}
+            <button 
+                onClick={cycleWordCursor}
+                className={`p-2 rounded-full transition-all hover:bg-zinc-800 ${wordCursor === 'off' ? 'text-zinc-600 hover:text-white' : 'text-white'}`}
+                title={wordCursor === 'off' ? 'Word Cursor: Off' : wordCursor === 'underline' ? 'Word Cursor: Underline' : 'Word Cursor: Reveal Word'}
+            >
+                {wordCursor === 'reveal' ? <TextCursor size={20} /> : <Underline size={20} />}
+            </button>
+            <button 
+                onClick={toggleDictation}
+                className={`p-2 rounded-full transition-all hover:bg-zinc-800 ${dictation ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+                title={`Dictation: type each sentence you hear${shortcutHint('toggleDictation')}`}
+            >
+                <PenLine size={20} />
+            </button>
+            <button 
+                onClick={() => setShowShortcuts(true)}
+                className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all"
+                title={`Keyboard Shortcuts${shortcutHint('showShortcuts')}`}
+            >
+                <Keyboard size={20} />
+            </button>
+            <SubtitleExportMenu 
+                material={material}
+                iconSize={20}
+                buttonClassName="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all"
+            />
+            {viewMode === 'cloze' && (
+                <ClozeControl
+                    settings={clozeSettings}
+                    onChange={changeClozeSettings}
+                    editing={pickingGaps}
+                    onToggleEditing={() => setPickingGaps(p => !p)}
+                    gapCount={clozeGapCount}
+                    correctCount={clozeCorrectCount}
+                />
+            )}
             <button 
                 onClick={cycleViewMode}
                 className="flex items-center gap-2 px-4 py-2 rounded-full border border-zinc-700 bg-transparent text-white hover:bg-zinc-800 transition-all"
             >
                 {getViewModeIcon()}
                 <span className="text-xs font-bold uppercase hidden md:inline tracking-wider">
-                    {viewMode === 'visible' ? 'Full Text' : viewMode === 'blur' ? 'Blur Mode' : 'Blind Mode'}
+                    {viewMode === 'visible' ? 'Full Text' : viewMode === 'blur' ? 'Blur Mode' : viewMode === 'cloze' ? 'Gap Fill' : 'Blind Mode'}
                 </span>
             </button>
         </div>
@@ -526,11 +1440,16 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
       <main className="flex-1 overflow-y-auto px-4 md:px-6 relative custom-scrollbar" ref={scrollContainerRef}>
         <div className="max-w-2xl mx-auto pb-48 pt-12">
             <h1 className="text-3xl md:text-4xl font-serif font-bold text-white mb-10 text-center leading-tight">{material.title}</h1>
+            {dictation && <DictationSessionBar tally={dictationTally} />}
             
             <div className="space-y-8">
               {material.segments.map((seg, index) => {
                 const isActive = index === activeIndex;
                 const hasRec = !!userRecordings[seg.id];
+                const speakerColor = isDialogue && seg.speaker ? getSpeakerColor(speakers, seg.speaker) : undefined;
+                const showSpeaker = speakerColor && seg.speaker !== material.segments[index - 1]?.speaker;
+                const attempt = dictation ? dictationAttempts[seg.id] : undefined;
+                const dictationResult = attempt !== undefined ? checkDictation(seg.text, attempt) : null;
                 
                 return (
                   <div 
@@ -541,17 +1460,26 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                         relative transition-all duration-300 ease-out cursor-pointer p-6 rounded-sm border-l-2
                         ${isActive ? 'bg-zinc-900/50 border-l-[#d44c47]' : 'border-l-transparent hover:bg-zinc-900/30'}
                     `}
+                    style={!isActive && speakerColor ? { borderLeftColor: `${speakerColor}55` } : undefined}
                   >
+                     {showSpeaker && (
+                         <div className="text-[10px] font-bold uppercase tracking-widest mb-2" style={{ color: speakerColor }}>
+                             {seg.speaker}{rolePlaySpeaker === seg.speaker && ' • You'}
+                         </div>
+                     )}
                      <p className={`text-xl md:text-2xl font-serif leading-loose tracking-wide ${isActive ? 'text-white' : 'text-zinc-500'}`}>
-                        {seg.text.split(/(\s+)/).map((part, i) => {
-                             let className = "";
-                             if (viewMode === 'blind') className = "bg-zinc-800 text-zinc-800 rounded-sm select-none";
-                             else if (viewMode === 'blur') className = "structure-blur text-transparent text-shadow-white";
-                             
-                             return <span key={i} className={className}>{part}</span>;
-                        })}
+                        {dictationResult ? <DictationResultText result={dictationResult} /> : renderSegmentText(seg, index)}
                      </p>
+                     {dictationResult && <DictationScore result={dictationResult} onRetry={() => retryDictation(seg)} />}
+                     {dictation && isActive && !dictationResult && (
+                         <DictationInput key={seg.id} onCheck={(typed) => checkDictationAttempt(seg, typed)} onReplay={replayCurrent} />
+                     )}
                      
+                     {viewMode === 'blur' && countPeeks(peekLog, seg.id) > 0 && (
+                         <div className="absolute bottom-2 right-6 flex items-center gap-1 text-[10px] font-mono text-zinc-600" title="Words peeked at">
+                             <ScanEye size={12} /> {countPeeks(peekLog, seg.id)}
+                         </div>
+                     )}
                      {hasRec && !isActive && (
                          <div className="absolute top-6 right-6 text-[#d44c47]">
                              <Mic size={16} fill="currentColor" />
@@ -576,15 +1504,45 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                 step={0.1}
                 value={currentTime}
                 onMouseDown={() => setIsDragging(true)}
-                onMouseUp={() => setIsDragging(false)}
+                onMouseUp={endDrag}
                 onTouchStart={() => setIsDragging(true)}
-                onTouchEnd={() => setIsDragging(false)}
+                onTouchEnd={endDrag}
                 onChange={handleSeek}
                 className="w-full h-1.5 bg-zinc-800 rounded-none appearance-none cursor-pointer accent-[#d44c47] focus:outline-none focus:ring-0"
              />
+             {/* A–B range */}
+             {loopPoints.a !== null && duration > 0 && (
+                 <div
+                    className={`absolute top-0 h-1.5 pointer-events-none border-l-2 border-[#d44c47] ${loopPoints.b !== null ? 'bg-[#d44c47]/30 border-r-2' : ''}`}
+                    style={{
+                        left: `${(loopPoints.a / duration) * 100}%`,
+                        width: loopPoints.b !== null ? `${((loopPoints.b - loopPoints.a) / duration) * 100}%` : 0
+                    }}
+                 />
+             )}
              <div className="absolute top-2 left-2 text-[10px] text-zinc-500 font-mono pointer-events-none">
                  {formatTime(currentTime)} / {formatTime(duration)}
              </div>
+             <div className="absolute top-2 right-2 flex items-center gap-1 text-[10px] font-mono">
+                 <button onClick={() => setLoopPoint('a')} className={`px-1 transition-colors ${loopPoints.a !== null ? 'text-white' : 'text-zinc-600 hover:text-white'}`} title={`Set Loop Start${shortcutHint('setLoopStart')}`}>
+                     A{loopPoints.a !== null && ` ${formatRangeTime(loopPoints.a)}`}
+                 </button>
+                 <button onClick={() => setLoopPoint('b')} disabled={loopPoints.a === null} className={`px-1 transition-colors disabled:opacity-40 ${loopPoints.b !== null ? 'text-white' : 'text-zinc-600 hover:text-white'}`} title={`Set Loop End${shortcutHint('setLoopEnd')}`}>
+                     B{loopPoints.b !== null && ` ${formatRangeTime(loopPoints.b)}`}
+                 </button>
+                 {loopPoints.a !== null && (
+                     <button onClick={clearLoopPoints} className="p-1 text-zinc-600 hover:text-[#d44c47] transition-colors" title={`Clear Range${shortcutHint('clearLoop')}`}>
+                         <X size={12} />
+                     </button>
+                 )}
+                 <LoopRangesMenu
+                    ranges={loopRanges}
+                    current={loopPoints.b !== null ? loopRangeRef.current : null}
+                    onSave={saveLoopRange}
+                    onSelect={selectLoopRange}
+                    onDelete={(id) => updateLoopRanges(loopRanges.filter(r => r.id !== id))}
+                 />
+             </div>
          </div>
 
          {/* Recording Status Bar */}
@@ -595,7 +1553,7 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                         <div className="flex items-center gap-3">
                             <div className={`w-2 h-2 rounded-full ${recordingState === 'recording' ? 'bg-[#d44c47] animate-pulse' : 'bg-yellow-500'}`} />
                             <span className="text-xs font-bold text-white uppercase tracking-wider">
-                                {recordingState === 'recording' ? 'Recording...' : 'Paused'}
+                                {rolePlayTurn !== null ? 'Your line: speak now' : shadowing ? 'Shadowing: speak along' : recordingState === 'recording' ? 'Recording...' : 'Paused'}
                             </span>
                         </div>
                     ) : (
@@ -604,6 +1562,10 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                             <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Recorded</span>
                         </div>
                     )}
+
+                    {recordingState === 'inactive' && hasCurrentRecording && recordingScores[material.segments[activeIndex].id] !== undefined && (
+                        <PronunciationScore scores={recordingScores[material.segments[activeIndex].id]} />
+                    )}
                     
                     {recordingState === 'inactive' && hasCurrentRecording && (
                         <div className="flex items-center gap-4">
@@ -617,14 +1579,36 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                     )}
 
                     {recordingState !== 'inactive' && (
-                         <button onClick={stopRecording} className="text-xs font-bold text-[#d44c47] hover:text-[#ff5e5e] uppercase tracking-widest">
-                             Stop & Save
+                         <button onClick={rolePlayTurn !== null ? finishLearnerTurn : stopRecording} className="text-xs font-bold text-[#d44c47] hover:text-[#ff5e5e] uppercase tracking-widest">
+                             {rolePlayTurn !== null ? `Done${shortcutHint('togglePlay')}` : 'Stop & Save'}
                          </button>
                     )}
                  </div>
              </div>
          )}
 
+         {/* Shadowing Take */}
+         {shadowing && recordingState === 'inactive' && hasCurrentTake && (
+             <div className="mx-auto max-w-xl px-4 mb-4">
+                 <ShadowTakeBar
+                    playback={takePlayback}
+                    onChangePlayback={changeTakePlayback}
+                    offset={shadowOffset}
+                    onChangeOffset={changeShadowOffset}
+                    isPlaying={isTakePlaying}
+                    onPlay={playShadowTake}
+                    onDelete={deleteShadowTake}
+                 />
+             </div>
+         )}
+
+         {/* Shadowing Gap Countdown */}
+         {gapCountdown && (
+             <div className="mx-auto max-w-xl px-4 mb-4">
+                 <ShadowGapCountdown endsAt={gapCountdown.endsAt} seconds={gapCountdown.seconds} />
+             </div>
+         )}
+
          {/* Main Deck */}
          <div className="max-w-xl mx-auto px-4 flex items-center justify-between gap-2">
             
@@ -641,10 +1625,10 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                 {/* Unified Loop Button */}
                 <button 
                     onClick={cycleLoopSetting}
-                    disabled={playbackMode !== 'sentence'}
+                    disabled={!isLooping}
                     className={`
                         relative w-10 h-10 flex items-center justify-center rounded-full transition-colors
-                        ${playbackMode === 'sentence' ? 'text-white' : 'text-zinc-700 opacity-50'}
+                        ${isLooping ? 'text-white' : 'text-zinc-700 opacity-50'}
                     `}
                 >
                     <Repeat size={20} />
@@ -652,12 +1636,22 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                         {loopSetting === Infinity ? '∞' : loopSetting}
                     </span>
                 </button>
+
+                <SpeedControl 
+                    rate={playbackRate}
+                    ramp={speedRamp}
+                    rampAvailable={rampAvailable}
+                    onChangeRate={changePlaybackRate}
+                    onToggleRamp={toggleSpeedRamp}
+                />
+
+                <ShadowGapControl gap={shadowGap} onChange={changeShadowGap} />
             </div>
 
             {/* Transport */}
             <div className="flex items-center gap-4">
                  {/* Skip -2s */}
-                 <button onClick={() => seekRelative(-2)} className="text-zinc-500 hover:text-white transition-colors" title="Rewind 2s (Shift + Left)">
+                 <button onClick={() => seekRelative(-2)} className="text-zinc-500 hover:text-white transition-colors" title={`Rewind 2s${shortcutHint('rewind')}`}>
                      <RotateCcw size={20} />
                  </button>
 
@@ -667,9 +1661,11 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                  
                  <button 
                     onClick={togglePlay}
-                    className="w-16 h-16 bg-white rounded-full flex items-center justify-center hover:scale-105 active:scale-95 transition-all text-black shadow-xl"
+                    disabled={!!material.audioUrl && audioStatus !== 'ready'}
+                    className="w-16 h-16 bg-white rounded-full flex items-center justify-center hover:scale-105 active:scale-95 transition-all text-black shadow-xl disabled:opacity-50 disabled:hover:scale-100"
+                    title={material.audioUrl && audioStatus === 'error' ? "Could not load the audio" : undefined}
                  >
-                    {isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={32} fill="currentColor" className="ml-1" />}
+                    {material.audioUrl && audioStatus === 'loading' ? <Loader2 size={28} className="animate-spin" /> : isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={32} fill="currentColor" className="ml-1" />}
                  </button>
 
                  <button onClick={() => skipToSegment('next')} className="text-zinc-500 hover:text-white transition-colors">
@@ -677,7 +1673,7 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                  </button>
 
                  {/* Skip +2s */}
-                 <button onClick={() => seekRelative(2)} className="text-zinc-500 hover:text-white transition-colors" title="Forward 2s (Shift + Right)">
+                 <button onClick={() => seekRelative(2)} className="text-zinc-500 hover:text-white transition-colors" title={`Forward 2s${shortcutHint('forward')}`}>
                      <RotateCw size={20} />
                  </button>
             </div>
@@ -693,6 +1689,15 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                    <Download size={20} />
                 </button>
 
+                <button
+                  onClick={toggleShadowing}
+                  disabled={!material.audioUrl || recordingState !== 'inactive'}
+                  className={`p-2 transition-colors disabled:opacity-30 ${shadowing ? 'text-[#d44c47]' : 'text-zinc-500 hover:text-white'}`}
+                  title={`Shadowing: record while the original plays${shortcutHint('toggleShadowing')}`}
+                >
+                   <AudioLines size={20} />
+                </button>
+
                 <button 
                     onClick={handleRecordButton}
                     className={`
@@ -701,9 +1706,9 @@ export const BlurReader: React.FC<BlurReaderProps> = ({ material, onBack }) => {
                           recordingState === 'paused' ? 'bg-yellow-500 text-white' : 
                           'bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700'}
                     `}
-                    title="Microphone"
+                    title={`Microphone${shortcutHint('record')}`}
                 >
-                    {recordingState === 'recording' ? <Pause size={20} fill="currentColor" /> : 
+                    {recordingState === 'recording' ? (shadowing ? <Square size={18} fill="currentColor" /> : <Pause size={20} fill="currentColor" />) : 
                      recordingState === 'paused' ? <Play size={20} fill="currentColor" /> :
                      <Mic size={22} />}
                 </button>
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ClozeSettings, ClozeStrategy, ClozeAnswer } from '../utils/cloze';
+
+interface ClozeControlProps {
+  settings: ClozeSettings;
+  onChange: (settings: ClozeSettings) => void;
+  editing: boolean; // Teacher picking the gaps by clicking words
+  onToggleEditing: () => void;
+  gapCount: number;
+  correctCount: number;
+}
+
+const STRATEGIES: { strategy: ClozeStrategy; label: string; description: string }[] = [
+  { strategy: 'nth', label: 'Every Nth', description: 'A gap at regular intervals.' },
+  { strategy: 'content', label: 'Content', description: 'Nouns, verbs and the other words that carry the meaning.' },
+  { strategy: 'function', label: 'Function', description: 'Articles, prepositions and auxiliaries, which shrink to weak forms.' },
+  { strategy: 'teacher', label: 'Teacher', description: 'Words picked for this session.' },
+];
+
+export const ClozeControl: React.FC<ClozeControlProps> = ({ settings, onChange, editing, onToggleEditing, gapCount, correctCount }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const current = STRATEGIES.find(s => s.strategy === settings.strategy)!;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center gap-2 px-3 py-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-all"
+        title="Gap Strategy"
+      >
+        <SlidersHorizontal size={18} />
+        <span className="text-[10px] font-bold font-mono">{correctCount}/{gapCount}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 right-0 w-64 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 p-3 space-y-3 font-sans">
+          <div className="text-[10px] font-bold uppercase text-zinc-500 tracking-widest">Gaps</div>
+          <div className="grid grid-cols-2 gap-1">
+            {STRATEGIES.map(({ strategy, label }) => (
+              <button
+                key={strategy}
+                onClick={() => onChange({ ...settings, strategy })}
+                className={`px-2 py-1 rounded-sm text-[10px] font-bold uppercase tracking-wider transition-colors ${settings.strategy === strategy ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {settings.strategy === 'nth' && (
+            <label className="block space-y-1">
+              <span className="flex justify-between text-[10px] text-zinc-500">Gap every <span className="font-mono text-white">{settings.every} words</span></span>
+              <input
+                type="range" min={2} max={12} step={1} value={settings.every}
+                onChange={(e) => onChange({ ...settings, every: parseInt(e.target.value, 10) })}
+                className="w-full h-1 bg-zinc-800 appearance-none cursor-pointer accent-[#d44c47]"
+              />
+            </label>
+          )}
+          {settings.strategy === 'teacher' && (
+            <button
+              onClick={onToggleEditing}
+              className={`w-full px-2 py-1.5 rounded-sm border text-[10px] font-bold uppercase tracking-wider transition-colors ${editing ? 'border-[#d44c47] text-[#d44c47]' : 'border-zinc-700 text-zinc-400 hover:text-white'}`}
+            >
+              {editing ? 'Done Picking Words' : 'Pick Words in the Text'}
+            </button>
+          )}
+
+          <p className="text-[10px] text-zinc-600">
+            {current.description} Type each missing word as you listen; Enter checks it, Enter again on a wrong answer shows the word.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ClozeGapProps {
+  expected: string;
+  answer: ClozeAnswer | undefined;
+  onChange: (value: string) => void;
+  onCheck: () => void;
+  onReveal: () => void;
+}
+
+// One hidden word: a field about as wide as the word until it is solved or given up
+export const ClozeGap: React.FC<ClozeGapProps> = ({ expected, answer, onChange, onCheck, onReveal }) => {
+  if (answer?.status === 'correct') return <span className="text-[#1db954]">{expected}</span>;
+  if (answer?.status === 'revealed') return <span className="text-yellow-500">{expected}</span>;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (answer?.status === 'wrong') onReveal();
+    else onCheck();
+  };
+
+  return (
+    <input
+      value={answer?.value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => answer?.value.trim() && answer.status === 'open' && onCheck()}
+      onClick={(e) => e.stopPropagation()}
+      spellCheck={false}
+      autoComplete="off"
+      style={{ width: `${Math.max(3, expected.length + 1)}ch` }}
+      className={`bg-transparent border-b-2 px-0.5 text-center text-white font-serif focus:outline-none transition-colors ${answer?.status === 'wrong' ? 'border-[#d44c47] text-[#d44c47]' : 'border-zinc-600 focus:border-white'}`}
+    />
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { DictationResult, dictationScore } from '../utils/dictation';
+
+export interface DictationTally {
+  sentences: number;
+  correct: number;
+  total: number;
+  extra: number;
+}
+
+const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+const scoreColor = (score: number) => (score >= 0.9 ? 'text-[#1db954]' : score >= 0.6 ? 'text-yellow-500' : 'text-[#d44c47]');
+
+// Where the learner types the sentence they just heard
+export const DictationInput: React.FC<{ onCheck: (typed: string) => void; onReplay: () => void }> = ({ onCheck, onReplay }) => {
+  const [typed, setTyped] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (typed.trim()) onCheck(typed);
+    }
+    // Hands the keyboard back to the reader's shortcuts
+    if (e.key === 'Escape') inputRef.current?.blur();
+  };
+
+  return (
+    <div className="mt-4 flex items-end gap-2" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        ref={inputRef}
+        value={typed}
+        onChange={(e) => setTyped(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={2}
+        placeholder="Type what you hear, then press Enter"
+        className="flex-1 bg-zinc-900 border border-zinc-800 rounded-sm px-3 py-2 font-serif text-lg text-white placeholder-zinc-600 resize-none focus:outline-none focus:border-zinc-600"
+      />
+      <button onClick={onReplay} className="p-2 text-zinc-500 hover:text-white transition-colors" title="Replay Sentence">
+        <RotateCcw size={18} />
+      </button>
+      <button
+        onClick={() => onCheck(typed)}
+        disabled={!typed.trim()}
+        className="p-2 rounded-full bg-[#d44c47] hover:bg-[#ff5e5e] text-white disabled:bg-zinc-800 disabled:text-zinc-600 transition-colors"
+        title="Check"
+      >
+        <Check size={18} />
+      </button>
+    </div>
+  );
+};
+
+// The segment's words marked against the attempt: misspellings show what was typed next to the right word
+export const DictationResultText: React.FC<{ result: DictationResult }> = ({ result }) => (
+  <>
+    {result.words.map((word, i) => {
+      if (word.type === 'correct') return <span key={i}>{word.expected} </span>;
+      if (word.type === 'missing') {
+        return <span key={i} className="text-[#1db954] font-bold" title="Missed">{word.expected} </span>;
+      }
+      if (word.type === 'extra') {
+        return <span key={i} className="text-[#d44c47] line-through" title="Not in the sentence">{word.typed} </span>;
+      }
+      return (
+        <span key={i} title={`You wrote "${word.typed}"`}>
+          <span className="text-[#d44c47] line-through">{word.typed}</span>{' '}
+          <span className="text-yellow-500 font-bold">{word.expected}</span>{' '}
+        </span>
+      );
+    })}
+  </>
+);
+
+export const DictationScore: React.FC<{ result: DictationResult; onRetry: () => void }> = ({ result, onRetry }) => {
+  const score = dictationScore(result);
+  return (
+    <div className="mt-3 flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest" onClick={(e) => e.stopPropagation()}>
+      <span className={scoreColor(score)}>{formatScore(score)}</span>
+      <span className="text-zinc-500">{result.correct}/{result.total} words{result.extra > 0 && `, ${result.extra} extra`}</span>
+      <button onClick={onRetry} className="flex items-center gap-1 text-zinc-500 hover:text-white transition-colors">
+        <RotateCcw size={10} />
+        Retry
+      </button>
+    </div>
+  );
+};
+
+// Running total of the sentences checked since the reader was opened
+export const DictationSessionBar: React.FC<{ tally: DictationTally }> = ({ tally }) => {
+  const score = dictationScore(tally);
+  return (
+    <div className="mb-8 flex items-center justify-center gap-4 text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+      <span>Dictation</span>
+      {tally.sentences === 0 ? (
+        <span className="text-zinc-600">Listen, then type each sentence</span>
+      ) : (
+        <>
+          <span>{tally.sentences} sentence{tally.sentences === 1 ? '' : 's'}</span>
+          <span>{tally.correct}/{tally.total} words</span>
+          <span className={scoreColor(score)}>{formatScore(score)}</span>
+        </>
+      )}
+    </div>
+  );
+};
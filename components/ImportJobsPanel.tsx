@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { X, Loader2, RotateCcw, AlertTriangle, Check, ChevronDown, ChevronUp, Square } from 'lucide-react';
+import { ImportJob } from '../hooks/useImportQueue';
+import { ImportStage } from '../services/importPipeline';
+
+interface ImportJobsPanelProps {
+  jobs: ImportJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onReview: (id: string) => void;
+}
+
+const STAGES: ImportStage[] = ['decode', 'align', 'validate', 'save'];
+
+const StageDots: React.FC<{ stage: ImportStage | null }> = ({ stage }) => {
+  const current = stage ? STAGES.indexOf(stage) : -1;
+  return (
+    <div className="flex items-center gap-1" title={stage ?? 'queued'}>
+      {STAGES.map((s, i) => (
+        <div key={s} className={`h-1 w-4 rounded-full ${i < current ? 'bg-[#1db954]' : i === current ? 'bg-[#d44c47] animate-pulse' : 'bg-zinc-800'}`} />
+      ))}
+    </div>
+  );
+};
+
+// Floating list of background imports: progress while they run, actions once they stop
+export const ImportJobsPanel: React.FC<ImportJobsPanelProps> = ({ jobs, onCancel, onRetry, onDismiss, onReview }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  if (jobs.length === 0) return null;
+
+  const active = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const iconButton = "p-1.5 text-zinc-500 hover:text-white transition-colors";
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <button
+        onClick={() => setCollapsed(c => !c)}
+        className="w-full flex items-center justify-between px-4 py-3 border-b border-zinc-800 text-xs font-bold uppercase tracking-widest text-zinc-400 hover:text-white transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          {active > 0 && <Loader2 size={12} className="animate-spin text-[#d44c47]" />}
+          Imports {active > 0 ? `• ${active} in progress` : ''}
+        </span>
+        {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {!collapsed && (
+        <ul className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-zinc-900">
+          {jobs.map(job => (
+            <li key={job.id} className="px-4 py-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-serif text-white truncate">{job.input.title}</span>
+                <div className="flex items-center flex-none">
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button onClick={() => onCancel(job.id)} className={iconButton} title="Cancel">
+                      <Square size={12} />
+                    </button>
+                  )}
+                  {job.status === 'review' && (
+                    <button onClick={() => onReview(job.id)} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest text-yellow-500 hover:text-white transition-colors">
+                      Review
+                    </button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button onClick={() => onRetry(job.id)} className={iconButton} title="Retry">
+                      <RotateCcw size={12} />
+                    </button>
+                  )}
+                  {job.status !== 'queued' && job.status !== 'running' && (
+                    <button onClick={() => onDismiss(job.id)} className={iconButton} title="Dismiss">
+                      <X size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <span className={`text-[10px] font-mono truncate ${job.status === 'failed' ? 'text-[#d44c47]' : 'text-zinc-500'}`}>
+                  {job.status === 'done' && <Check size={10} className="inline text-[#1db954] mr-1" />}
+                  {(job.status === 'failed' || job.status === 'review') && <AlertTriangle size={10} className="inline mr-1" />}
+                  {job.detail}
+                </span>
+                {job.status === 'running' && <StageDots stage={job.stage} />}
+              </div>
+
+              {job.status === 'running' && job.progress !== null && (
+                <div className="h-0.5 bg-zinc-800">
+                  <div className="h-full bg-[#d44c47] transition-all duration-500" style={{ width: `${job.progress * 100}%` }} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,79 +1,45 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Upload, FileAudio, Loader2, Music, Clock, RotateCcw, Sparkles } from 'lucide-react';
+import { X, Upload, FileAudio, Loader2, Music, Clock, RotateCcw, Sparkles, Captions, AlertTriangle, WandSparkles } from 'lucide-react';
 import { Material, Segment } from '../types';
 import { getAudioBlob } from '../utils/storage';
-import { alignAudioWithText } from '../services/geminiService';
+import { getAlignmentProvider } from '../services/alignmentProviders';
+import { ImportInput } from '../services/importPipeline';
+import { AppSettings } from '../utils/settings';
+import { decodeAudioBlob } from '../utils/audioUtils';
+import { formatTranscript } from '../utils/speakers';
+import { SUBTITLE_EXTENSIONS, SubtitleFormat, detectSubtitleFormat, parseSubtitles } from '../utils/subtitles';
 
 interface ImportWizardProps {
   initialData?: Material;
+  settings: AppSettings;
   onClose: () => void;
-  onImport: (material: Material, audioBlob: Blob | null) => void;
+  onQueue: (input: ImportInput) => void;
 }
 
-// Improved splitter that merges dangling punctuation/short segments (Fallback Logic)
-const splitIntoSentencesFallback = (text: string): string[] => {
-  const normalized = text.replace(/\s+/g, ' ').trim();
-  let rawSegments: string[] = [];
-
-  // Use Intl.Segmenter if available for better linguistic awareness
-  if (typeof Intl !== 'undefined' && (Intl as any).Segmenter) {
-      const segmenter = new (Intl as any).Segmenter('en', { granularity: 'sentence' });
-      rawSegments = [...segmenter.segment(normalized)].map((s: any) => s.segment.trim());
-  } else {
-      // Fallback regex looking for punctuation followed by space or end of string
-      const processed = normalized.replace(/([.!?。！？]+)(\s+|$)/g, "$1|");
-      rawSegments = processed.split('|').map(s => s.trim());
-  }
-
-  // Filter empty
-  rawSegments = rawSegments.filter(s => s.length > 0);
-
-  const finalSegments: string[] = [];
-  let pendingBuffer = "";
-
-  // Forward Merge Logic:
-  for (let i = 0; i < rawSegments.length; i++) {
-      const seg = rawSegments[i];
-      const isLast = i === rawSegments.length - 1;
-      
-      // Threshold increased to 18 to catch things like "That's right", "Me too", "Oh yeah"
-      const isShort = seg.length < 18;
-
-      if (isShort && !isLast) {
-          pendingBuffer += seg + " ";
-      } else {
-          finalSegments.push((pendingBuffer + seg).trim());
-          pendingBuffer = "";
-      }
-  }
-
-  if (pendingBuffer.trim().length > 0) {
-      if (finalSegments.length > 0) {
-          finalSegments.push(pendingBuffer.trim());
-      } else {
-          finalSegments[finalSegments.length - 1] += " " + pendingBuffer.trim();
-      }
-  }
-
-  return finalSegments;
-};
-
-export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose, onImport }) => {
+export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, settings, onClose, onQueue }) => {
   const [title, setTitle] = useState('');
   const [text, setText] = useState('');
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [existingAudioBlob, setExistingAudioBlob] = useState<Blob | null>(null);
   const [offset, setOffset] = useState<string>('0'); 
-  const [isProcessing, setIsProcessing] = useState(false);
   const [loadingStage, setLoadingStage] = useState<string>("");
   const audioInputRef = useRef<HTMLInputElement>(null);
 
+  // Subtitle import: timed cues replace alignment entirely
+  const [subtitleFile, setSubtitleFile] = useState<{ name: string; content: string; format: SubtitleFormat } | null>(null);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+
+  // Transcription: timed segments produced from the audio alone
+  const [transcribedSegments, setTranscribedSegments] = useState<Segment[] | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
   // Pre-fill data if editing
   useEffect(() => {
     if (initialData) {
         setTitle(initialData.title);
-        // Reconstruct full text from segments
-        setText(initialData.segments.map(s => s.text).join(' '));
+        // Reconstruct full text from segments (with speaker labels for dialogues)
+        setText(formatTranscript(initialData.segments));
         if (initialData.segments.length > 0) {
             setOffset(initialData.segments[0].startTime.toString());
         }
@@ -85,100 +51,98 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose
     }
   }, [initialData]);
 
+  const provider = getAlignmentProvider(settings);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setAudioFile(e.target.files[0]);
+      setTranscribedSegments(null); // Timings belong to the previous audio
     }
   };
 
-  const processImport = async () => {
-    if (!title || !text) return;
-    
+  const handleTranscribe = async () => {
     const blobToUse = audioFile || existingAudioBlob;
-    if (!blobToUse) {
-        alert("Please upload an audio file.");
-        return;
-    }
-
-    setIsProcessing(true);
-    setLoadingStage("Loading Audio...");
+    if (!blobToUse || !provider.transcribe) return;
+    if (text.trim() && !confirm("Replace the current text with a transcription?")) return;
 
+    setIsTranscribing(true);
+    setLoadingStage("Transcribing audio...");
     try {
-      const audioUrl = URL.createObjectURL(blobToUse);
-
-      const duration = await new Promise<number>((resolve, reject) => {
-        const audio = new Audio(audioUrl);
-        audio.onloadedmetadata = () => resolve(audio.duration);
-        audio.onerror = () => reject("Could not load audio metadata");
+      const audioBuffer = await decodeAudioBlob(blobToUse).catch(() => undefined);
+      const segments = await provider.transcribe({
+        audioBlob: blobToUse,
+        audioBuffer,
+        onProgress: (completed, total) => {
+          if (total > 1) setLoadingStage(`Transcribing chunk ${Math.min(completed + 1, total)} of ${total}...`);
+        }
       });
+      if (!segments) throw new Error(`${provider.label} could not transcribe this audio.`);
 
-      const offsetSeconds = parseFloat(offset) || 0;
-      if (offsetSeconds >= duration) throw new Error("Offset cannot be longer than audio.");
-      
-      // --- AI ALIGNMENT ATTEMPT ---
-      setLoadingStage("AI Aligning (this may take a moment)...");
-      
-      let segments: Segment[] | null = null;
-      
-      // Try AI alignment first
-      segments = await alignAudioWithText(blobToUse, text);
-
-      // --- FALLBACK LOGIC ---
-      if (!segments) {
-         console.warn("AI Alignment failed or unavailable. Falling back to linear calculation.");
-         setLoadingStage("Falling back to standard alignment...");
-         
-         const cleanedSegments = splitIntoSentencesFallback(text);
-         if (cleanedSegments.length === 0) throw new Error("No segments found.");
-
-         const effectiveDuration = duration - offsetSeconds;
-         const totalChars = cleanedSegments.reduce((acc, s) => acc + s.length, 0);
-         let currentTime = offsetSeconds; 
-         
-         segments = cleanedSegments.map((s, i) => {
-            const segmentDuration = totalChars > 0 ? (s.length / totalChars) * effectiveDuration : 0;
-            const seg: Segment = {
-              id: `imp-${Date.now()}-${i}`,
-              text: s,
-              startTime: currentTime,
-              endTime: currentTime + segmentDuration
-            };
-            currentTime += segmentDuration;
-            return seg;
-         });
-      }
+      setTranscribedSegments(segments);
+      setText(formatTranscript(segments));
+    } catch (error) {
+      console.error("Transcription failed", error);
+      alert(error instanceof Error ? error.message : "Transcription failed.");
+    } finally {
+      setIsTranscribing(false);
+      setLoadingStage("");
+    }
+  };
 
-      const minutes = Math.floor(duration / 60);
-      const seconds = Math.floor(duration % 60);
-      const durationStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const handleSubtitleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file after fixing it
+    if (!file) return;
+
+    const content = await file.text();
+    const format = detectSubtitleFormat(file.name, content);
+    if (!format) {
+      setSubtitleFile(null);
+      setSubtitleError(`${file.name}: unrecognised subtitle format. Use .srt, .vtt or .lrc.`);
+      return;
+    }
 
-      // Image Logic: Leave empty to trigger CSS Fallback in ArticleCard
-      // This ensures reliability in China/Netlify without blocked external requests.
-      const finalImageUrl = initialData?.imageUrl || "";
+    try {
+      const cues = parseSubtitles(content, format);
+      setSubtitleFile({ name: file.name, content, format });
+      setSubtitleError(null);
+      setText(cues.map(c => c.text).join('\n'));
+    } catch (error) {
+      setSubtitleFile(null);
+      setSubtitleError(`${file.name}: ${error instanceof Error ? error.message : 'Could not read subtitles.'}`);
+    }
+  };
 
-      const newMaterial: Material = {
-        id: initialData ? initialData.id : `custom-${Date.now()}`,
-        title,
-        description: text.slice(0, 150).replace(/\s+/g, ' ') + "...",
-        category: "Imported",
-        difficulty: "Medium",
-        duration: durationStr,
-        imageUrl: finalImageUrl,
-        audioUrl: "", // Filled by App
-        segments: segments!
-      };
+  const clearSubtitles = () => {
+    setSubtitleFile(null);
+    setSubtitleError(null);
+  };
 
-      onImport(newMaterial, audioFile ? audioFile : null);
+  // Hands the import to the background queue; the modal closes right away
+  const queueImport = () => {
+    if (!title || !text) return;
 
-    } catch (error) {
-      console.error("Import failed", error);
-      alert(error instanceof Error ? error.message : "Failed to process audio.");
-      setIsProcessing(false);
-      setLoadingStage("");
+    const blobToUse = audioFile || existingAudioBlob;
+    if (!blobToUse) {
+        alert("Please upload an audio file.");
+        return;
     }
+
+    onQueue({
+      materialId: initialData ? initialData.id : `custom-${Date.now()}`,
+      title,
+      text,
+      audioBlob: blobToUse,
+      replacesAudio: !!audioFile,
+      offsetSeconds: parseFloat(offset) || 0,
+      imageUrl: initialData?.imageUrl || "",
+      subtitles: subtitleFile ? { content: subtitleFile.content, format: subtitleFile.format } : undefined,
+      transcribedSegments: transcribedSegments ?? undefined,
+      settings
+    });
   };
 
-  const isReady = title && text && (audioFile || existingAudioBlob);
+  const isReady = title && text && (audioFile || existingAudioBlob) && !isTranscribing;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
@@ -215,7 +179,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose
           {/* Audio Input */}
           <div className="space-y-2">
             <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Audio Source</label>
-            
+          
             {/* If editing and has existing blob, show different UI */}
             {existingAudioBlob && !audioFile ? (
                  <div className="flex items-center justify-between bg-zinc-900 border border-zinc-800 rounded-sm p-4">
@@ -262,6 +226,46 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose
             </div>
           </div>
 
+          {/* Subtitles (optional) */}
+          <div className="space-y-2">
+            <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Subtitles (Optional)</label>
+            <input 
+              ref={subtitleInputRef}
+              type="file" 
+              accept={SUBTITLE_EXTENSIONS} 
+              className="hidden" 
+              onChange={handleSubtitleChange}
+            />
+            {subtitleFile ? (
+                 <div className="flex items-center justify-between bg-zinc-900 border border-zinc-800 rounded-sm p-4">
+                     <div className="flex items-center gap-3 text-zinc-300">
+                         <Captions size={20} />
+                         <span className="font-mono text-sm">{subtitleFile.name}</span>
+                         <span className="text-[10px] uppercase tracking-widest text-zinc-500">Timings from cues</span>
+                     </div>
+                     <button 
+                        onClick={clearSubtitles}
+                        className="text-xs uppercase font-bold text-[#d44c47] hover:text-white transition-colors flex items-center gap-1"
+                     >
+                         <X size={12} /> Remove
+                     </button>
+                 </div>
+            ) : (
+                 <button 
+                    onClick={() => subtitleInputRef.current?.click()}
+                    className="w-full border border-dashed border-zinc-700 hover:border-zinc-500 hover:bg-zinc-900 rounded-sm p-4 flex items-center justify-center gap-2 text-zinc-500 hover:text-white transition-all text-sm uppercase tracking-wide"
+                 >
+                     <Captions size={18} /> Add .srt / .vtt / .lrc
+                 </button>
+            )}
+            {subtitleError && (
+                <div className="flex items-start gap-2 text-xs text-[#d44c47] font-mono bg-[#d44c47]/10 border border-[#d44c47]/30 rounded-sm p-3">
+                    <AlertTriangle size={14} className="flex-none mt-0.5" />
+                    <span>{subtitleError}</span>
+                </div>
+            )}
+          </div>
+
           {/* Intro Offset & AI Badge */}
           <div className="flex items-center gap-4">
             <div className="bg-zinc-900/50 p-4 border-l-2 border-[#d44c47] flex-1">
@@ -278,24 +282,47 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose
                     />
                 </div>
             </div>
-            
+          
             <div className="flex-1 border border-zinc-800 p-4 flex flex-col justify-center h-full">
                 <div className="flex items-center gap-2 text-xs font-bold uppercase text-zinc-500 tracking-widest mb-1">
-                   <Sparkles size={14} className="text-yellow-500" /> AI Alignment
+                   <Sparkles size={14} className="text-yellow-500" /> {provider.label}
                 </div>
                 <p className="text-[10px] text-zinc-600">
-                    We'll try to use AI to sync text with audio precisely. If it fails, we fall back to a standard calculation using the offset.
+                    {provider.id === 'local'
+                        ? "We detect pauses in the audio offline, starting after the offset. Change the aligner in Settings."
+                        : "We'll sync text with audio using this aligner. If it's unavailable, we detect pauses in the audio offline, starting after the offset."}
                 </p>
             </div>
           </div>
 
           {/* Transcript */}
           <div className="space-y-2">
-            <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Full Text</label>
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Full Text</label>
+              {transcribedSegments ? (
+                  <button 
+                      onClick={() => setTranscribedSegments(null)}
+                      className="text-[10px] uppercase font-bold tracking-widest text-zinc-500 hover:text-white transition-colors"
+                      title="Discard the transcription timings and align the text instead"
+                  >
+                      Timed by transcription • Re-align instead
+                  </button>
+              ) : (
+                  <button 
+                      onClick={handleTranscribe}
+                      disabled={!(audioFile || existingAudioBlob) || !provider.transcribe || !!subtitleFile || isTranscribing}
+                      className="text-xs uppercase font-bold text-[#d44c47] hover:text-white transition-colors flex items-center gap-1 disabled:text-zinc-700 disabled:cursor-not-allowed"
+                      title={provider.transcribe ? "Transcribe the audio" : `${provider.label} cannot transcribe. Choose another aligner in Settings.`}
+                  >
+                      {isTranscribing ? <Loader2 size={12} className="animate-spin" /> : <WandSparkles size={12} />} Transcribe for me
+                  </button>
+              )}
+            </div>
             <textarea 
                 value={text}
                 onChange={(e) => setText(e.target.value)}
-                placeholder="Paste the full text here. We will align it to the audio."
+                readOnly={!!subtitleFile}
+                placeholder="Paste the full text here. We will align it to the audio. For dialogues, start each turn with a label like A: or B:. No text? Use Transcribe for me."
                 className="w-full h-64 bg-zinc-900/30 border border-zinc-800 rounded-sm p-4 text-base md:text-lg font-serif leading-relaxed text-zinc-300 focus:border-zinc-600 focus:bg-zinc-900 focus:outline-none transition-all placeholder:text-zinc-700 resize-none"
             />
           </div>
@@ -307,29 +334,28 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ initialData, onClose
               LeadYouth Editor v2.2
           </div>
           <div className="flex gap-4 items-center">
-            {isProcessing && (
+            {isTranscribing && (
                 <span className="text-xs text-[#d44c47] font-bold uppercase animate-pulse mr-2">
                     {loadingStage}
                 </span>
             )}
             <button 
                 onClick={onClose}
-                disabled={isProcessing}
-                className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest disabled:opacity-50"
+                className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
             >
                 Cancel
             </button>
             <button 
-                onClick={processImport}
-                disabled={!isReady || isProcessing}
+                onClick={queueImport}
+                disabled={!isReady}
                 className={`
                 flex items-center gap-2 px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest
-                ${(!isReady || isProcessing) 
+                ${!isReady 
                     ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' 
                     : 'bg-[#d44c47] hover:bg-[#ff5e5e]'}
                 `}
             >
-                {isProcessing ? <Loader2 size={16} className="animate-spin" /> : (initialData ? 'Save Changes' : 'Create Session')}
+                {initialData ? 'Save Changes' : 'Create Session'}
             </button>
           </div>
         </div>
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, Trash2 } from 'lucide-react';
+import { LoopRange } from '../types';
+
+interface LoopRangesMenuProps {
+  ranges: LoopRange[];
+  current: { startTime: number; endTime: number } | null; // The A–B range set now, if complete
+  onSave: (name: string) => void;
+  onSelect: (range: LoopRange) => void;
+  onDelete: (id: string) => void;
+}
+
+export const formatRangeTime = (t: number) => {
+  const mins = Math.floor(t / 60);
+  const secs = (t % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+export const LoopRangesMenu: React.FC<LoopRangesMenuProps> = ({ ranges, current, onSave, onSelect, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    onSave(name.trim() || `Range ${ranges.length + 1}`);
+    setName('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`p-1 transition-colors ${ranges.length > 0 ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+        title="Saved Ranges"
+      >
+        <Bookmark size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 w-64 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 py-1 font-sans">
+          <div className="px-3 py-2 text-[10px] font-bold uppercase text-zinc-500 tracking-widest border-b border-zinc-800">Saved Ranges</div>
+
+          {ranges.length === 0 && (
+            <div className="px-3 py-3 text-[10px] text-zinc-600">None yet. Set A and B, then save the range here.</div>
+          )}
+          <div className="max-h-48 overflow-y-auto">
+            {ranges.map(range => (
+              <div key={range.id} className="group flex items-center hover:bg-zinc-900 transition-colors">
+                <button
+                  onClick={() => { onSelect(range); setIsOpen(false); }}
+                  className="flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 text-left"
+                >
+                  <span className="text-xs font-bold text-white truncate">{range.name}</span>
+                  <span className="text-[10px] text-zinc-500 font-mono flex-none">
+                    {formatRangeTime(range.startTime)}–{formatRangeTime(range.endTime)}
+                  </span>
+                </button>
+                <button
+                  onClick={() => onDelete(range.id)}
+                  className="px-2 text-zinc-600 hover:text-[#d44c47] opacity-0 group-hover:opacity-100 transition-all"
+                  title="Delete Range"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSave} className="flex gap-2 px-3 py-2 border-t border-zinc-800">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={!current}
+              placeholder={current ? 'Name this range' : 'Set A and B first'}
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-sm px-2 py-1 text-xs text-white placeholder-zinc-600 focus:outline-none focus:border-zinc-600 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!current}
+              className="px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider bg-[#d44c47] hover:bg-[#ff5e5e] text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
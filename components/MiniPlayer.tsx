@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1, ListMusic, Maximize2, X } from 'lucide-react';
+import { Material } from '../types';
+import { Playlist } from '../hooks/usePlaylist';
+
+interface MiniPlayerProps {
+  playlist: Playlist;
+  onOpen: (material: Material) => void; // Continue in the reader for intensive practice
+}
+
+const formatTime = (t: number) => {
+  if (!isFinite(t)) return '0:00';
+  const mins = Math.floor(t / 60);
+  const secs = Math.floor(t % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Library-side player for the queue: extensive listening while browsing, with the sentence being spoken
+export const MiniPlayer: React.FC<MiniPlayerProps> = ({ playlist, onOpen }) => {
+  const [showQueue, setShowQueue] = useState(false);
+  const { current, queue, isPlaying, currentTime, duration, shuffle, repeat } = playlist;
+  if (!current) return null;
+
+  const sentence = current.segments.find(s => currentTime >= s.startTime && currentTime < s.endTime);
+  const iconButton = "p-1.5 text-zinc-500 hover:text-white transition-colors";
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40 w-[min(28rem,calc(100vw-3rem))] bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl animate-in fade-in slide-in-from-bottom-4 duration-300">
+      {/* Queue */}
+      {showQueue && (
+        <div className="max-h-64 overflow-y-auto border-b border-zinc-800 py-1">
+          <div className="px-4 py-2 text-[10px] font-bold uppercase text-zinc-500 tracking-widest">Up Next</div>
+          {queue.map(material => (
+            <div key={material.id} className="group flex items-center hover:bg-zinc-900 transition-colors">
+              <button
+                onClick={() => playlist.jumpTo(material.id)}
+                className={`flex-1 min-w-0 px-4 py-2 text-left text-xs truncate ${material.id === current.id ? 'text-[#d44c47] font-bold' : 'text-zinc-300'}`}
+              >
+                {material.title}
+              </button>
+              <button onClick={() => playlist.remove(material.id)} className="px-3 text-zinc-600 hover:text-[#d44c47] opacity-0 group-hover:opacity-100 transition-all" title="Remove from Queue">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Progress */}
+      <input
+        type="range"
+        min={0}
+        max={duration || 1}
+        step={0.1}
+        value={currentTime}
+        onChange={(e) => playlist.seek(parseFloat(e.target.value))}
+        className="block w-full h-1 bg-zinc-800 rounded-none appearance-none cursor-pointer accent-[#d44c47] focus:outline-none"
+      />
+
+      <div className="flex items-center gap-3 px-4 py-3">
+        <button onClick={() => { playlist.pause(); onOpen(current); }} className="flex-1 min-w-0 text-left group" title="Open in Reader">
+          <div className="flex items-center gap-2 text-sm font-serif font-bold text-white truncate">
+            {current.title}
+            <Maximize2 size={12} className="flex-none text-zinc-600 group-hover:text-white transition-colors" />
+          </div>
+          <div className="text-[10px] text-zinc-500 truncate">
+            {sentence ? sentence.text : `${formatTime(currentTime)} / ${formatTime(duration)}`}
+          </div>
+        </button>
+
+        <div className="flex items-center gap-1 flex-none">
+          <button onClick={playlist.toggleShuffle} className={`p-1.5 transition-colors ${shuffle ? 'text-[#d44c47]' : 'text-zinc-600 hover:text-white'}`} title="Shuffle">
+            <Shuffle size={14} />
+          </button>
+          <button onClick={playlist.previous} className={iconButton} title="Previous">
+            <SkipBack size={16} fill="currentColor" />
+          </button>
+          <button
+            onClick={playlist.toggle}
+            className="w-9 h-9 bg-white rounded-full flex items-center justify-center hover:scale-105 active:scale-95 transition-all text-black"
+          >
+            {isPlaying ? <Pause size={16} fill="currentColor" /> : <Play size={16} fill="currentColor" className="ml-0.5" />}
+          </button>
+          <button onClick={playlist.next} className={iconButton} title="Next">
+            <SkipForward size={16} fill="currentColor" />
+          </button>
+          <button onClick={playlist.cycleRepeat} className={`p-1.5 transition-colors ${repeat !== 'off' ? 'text-[#d44c47]' : 'text-zinc-600 hover:text-white'}`} title={repeat === 'one' ? 'Repeat One' : repeat === 'all' ? 'Repeat All' : 'Repeat Off'}>
+            {repeat === 'one' ? <Repeat1 size={14} /> : <Repeat size={14} />}
+          </button>
+          <button onClick={() => setShowQueue(s => !s)} className={`p-1.5 transition-colors ${showQueue ? 'text-white' : 'text-zinc-600 hover:text-white'}`} title="Queue">
+            <ListMusic size={14} />
+          </button>
+          <button onClick={playlist.clear} className="p-1.5 text-zinc-600 hover:text-[#d44c47] transition-colors" title="Clear Queue">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
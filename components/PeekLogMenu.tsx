@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanEye, Trash2 } from 'lucide-react';
+import { PeekedWord } from '../utils/peeks';
+
+interface PeekLogMenuProps {
+  words: PeekedWord[];
+  onSelect: (word: PeekedWord) => void;
+  onClear: () => void;
+}
+
+// The words the learner had to reveal in blur mode: the ones they did not catch by ear
+export const PeekLogMenu: React.FC<PeekLogMenuProps> = ({ words, onSelect, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const total = words.reduce((n, w) => n + w.count, 0);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`flex items-center gap-1 p-2 rounded-full transition-all hover:bg-zinc-800 ${total > 0 ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+        title="Peeked Words"
+      >
+        <ScanEye size={20} />
+        {total > 0 && <span className="text-[10px] font-bold font-mono">{total}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 right-0 w-64 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 py-1 font-sans">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+            <span className="text-[10px] font-bold uppercase text-zinc-500 tracking-widest">Peeked Words</span>
+            {words.length > 0 && (
+              <button onClick={onClear} className="text-zinc-600 hover:text-[#d44c47] transition-colors" title="Clear Log">
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+
+          {words.length === 0 && (
+            <div className="px-3 py-3 text-[10px] text-zinc-600">None yet. In blur mode, hover or tap a word to reveal just that word.</div>
+          )}
+          <div className="max-h-64 overflow-y-auto">
+            {words.map(word => (
+              <button
+                key={`${word.segmentId}:${word.wordIndex}`}
+                onClick={() => { onSelect(word); setIsOpen(false); }}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left hover:bg-zinc-900 transition-colors"
+              >
+                <span className="text-xs font-serif text-white truncate">{word.word}</span>
+                <span className="flex-none flex items-center gap-3 text-[10px] font-mono">
+                  <span className="text-zinc-600">#{word.segmentIndex + 1}</span>
+                  <span className="text-[#d44c47] font-bold">{word.count}×</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
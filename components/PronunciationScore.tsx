@@ -0,0 +1,31 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { PronunciationScores } from '../utils/pronunciation';
+
+interface PronunciationScoreProps {
+  scores: PronunciationScores | null | 'scoring';
+}
+
+const scoreColor = (score: number) => score >= 80 ? 'text-[#1db954]' : score >= 50 ? 'text-yellow-500' : 'text-[#d44c47]';
+
+// How close a recording came to the original, worked out on this device
+export const PronunciationScore: React.FC<PronunciationScoreProps> = ({ scores }) => {
+  if (scores === 'scoring') return <Loader2 size={14} className="animate-spin text-zinc-600" />;
+  if (!scores) return <span className="text-[10px] text-zinc-600" title="No speech could be found in the recording">No score</span>;
+
+  const parts: { label: string; score: number | null; title: string }[] = [
+    { label: 'Rhythm', score: scores.rhythm, title: 'Stressed and weak syllables in the same places' },
+    { label: 'Intonation', score: scores.intonation, title: 'The voice rising and falling like the original' },
+    { label: 'Timing', score: scores.timing, title: `Speed and evenness; you took ${Math.round(scores.durationRatio * 100)}% of the original's time` },
+  ];
+
+  return (
+    <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+      {parts.map(p => (
+        <span key={p.label} className="text-zinc-500" title={p.title}>
+          {p.label} <span className={`font-mono ${p.score === null ? 'text-zinc-600' : scoreColor(p.score)}`}>{p.score ?? '–'}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { X, Sparkles, Server, WifiOff } from 'lucide-react';
+import { AppSettings, AlignmentProviderId } from '../utils/settings';
+import { PROVIDER_LABELS } from '../services/alignmentProviders';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onClose: () => void;
+  onSave: (settings: AppSettings) => void;
+}
+
+const PROVIDERS: { id: AlignmentProviderId; icon: React.ReactNode; description: string }[] = [
+  { id: 'gemini', icon: <Sparkles size={18} className="text-yellow-500" />, description: 'Most precise. Needs an API key and access to Google.' },
+  { id: 'http', icon: <Server size={18} className="text-[#1db954]" />, description: 'Your own aligner (aeneas, whisper...) on the local network.' },
+  { id: 'local', icon: <WifiOff size={18} className="text-zinc-400" />, description: 'Runs in the browser. No network, fits sentences to pauses.' },
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const inputClass = "w-full bg-transparent border-b border-zinc-700 px-0 py-2 font-mono text-sm text-white focus:outline-none focus:border-white transition-all placeholder:text-zinc-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-xl bg-[#09090b] rounded-sm shadow-2xl overflow-hidden border border-zinc-800 flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-[#09090b]">
+          <h2 className="text-2xl font-serif font-bold text-white">Settings</h2>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-8 space-y-8 overflow-y-auto custom-scrollbar flex-1">
+          <div className="space-y-3">
+            <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Alignment Provider</label>
+            {PROVIDERS.map(({ id, icon, description }) => (
+              <button
+                key={id}
+                onClick={() => update('alignmentProvider', id)}
+                className={`w-full flex items-start gap-4 p-4 text-left border rounded-sm transition-all ${draft.alignmentProvider === id ? 'border-white bg-zinc-900' : 'border-zinc-800 hover:border-zinc-600'}`}
+              >
+                <div className="pt-0.5">{icon}</div>
+                <div>
+                  <div className="text-sm font-bold text-white">{PROVIDER_LABELS[id]}</div>
+                  <div className="text-xs text-zinc-500 mt-1">{description}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {draft.alignmentProvider === 'gemini' && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Gemini Model</label>
+              <input
+                type="text"
+                value={draft.geminiModel}
+                onChange={(e) => update('geminiModel', e.target.value.trim())}
+                placeholder="gemini-2.5-flash"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {draft.alignmentProvider === 'http' && (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Endpoint URL</label>
+                <input
+                  type="url"
+                  value={draft.httpEndpoint}
+                  onChange={(e) => update('httpEndpoint', e.target.value.trim())}
+                  placeholder="http://192.168.1.20:8000/align"
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Access Token (Optional)</label>
+                <input
+                  type="password"
+                  value={draft.httpToken}
+                  onChange={(e) => update('httpToken', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <p className="text-[10px] text-zinc-600">
+                Audio and transcript are sent as multipart form fields (audio, text, sentences, offset). The server should return {'{ segments: [...] }'} or an aeneas sync map.
+              </p>
+            </div>
+          )}
+
+          <p className="text-[10px] text-zinc-600">
+            If the chosen provider fails, imports fall back to offline pause detection.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 bg-[#09090b] border-t border-zinc-800 flex justify-end items-center gap-4">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.alignmentProvider === 'http' && !draft.httpEndpoint}
+            className="px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest bg-[#d44c47] hover:bg-[#ff5e5e] disabled:bg-zinc-800 disabled:text-zinc-600 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { ShadowGap } from '../utils/practiceStore';
+
+interface ShadowGapControlProps {
+  gap: ShadowGap;
+  onChange: (gap: ShadowGap) => void;
+}
+
+const MODES: { mode: ShadowGap['mode']; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'fixed', label: 'Seconds' },
+  { mode: 'relative', label: '× Sentence' },
+];
+
+export const formatGap = (gap: ShadowGap) =>
+  gap.mode === 'fixed' ? `${gap.seconds}s` : gap.mode === 'relative' ? `${gap.multiple}×` : '';
+
+export const ShadowGapControl: React.FC<ShadowGapControlProps> = ({ gap, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`relative w-10 h-10 flex items-center justify-center rounded-full transition-colors ${gap.mode !== 'off' ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+        title="Shadowing Gap"
+      >
+        <Hourglass size={18} />
+        {gap.mode !== 'off' && (
+          <span className="absolute text-[8px] font-bold bg-[#09090b] px-0.5 -bottom-1 text-center min-w-[12px]">{formatGap(gap)}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 w-60 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 p-3 space-y-3">
+          <div className="text-[10px] font-bold uppercase text-zinc-500 tracking-widest">Shadowing Gap</div>
+          <div className="flex gap-1">
+            {MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => onChange({ ...gap, mode })}
+                className={`flex-1 px-2 py-1 rounded-sm text-[10px] font-bold uppercase tracking-wider transition-colors ${gap.mode === mode ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {gap.mode === 'fixed' && (
+            <label className="block space-y-1">
+              <span className="flex justify-between text-[10px] text-zinc-500">Silence after each pass <span className="font-mono text-white">{gap.seconds}s</span></span>
+              <input
+                type="range" min={0.5} max={10} step={0.5} value={gap.seconds}
+                onChange={(e) => onChange({ ...gap, seconds: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-zinc-800 appearance-none cursor-pointer accent-[#d44c47]"
+              />
+            </label>
+          )}
+          {gap.mode === 'relative' && (
+            <label className="block space-y-1">
+              <span className="flex justify-between text-[10px] text-zinc-500">Times the sentence length <span className="font-mono text-white">{gap.multiple}×</span></span>
+              <input
+                type="range" min={0.5} max={3} step={0.25} value={gap.multiple}
+                onChange={(e) => onChange({ ...gap, multiple: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-zinc-800 appearance-none cursor-pointer accent-[#d44c47]"
+              />
+            </label>
+          )}
+
+          <p className="text-[10px] text-zinc-600">
+            Pauses between sentence repeats, and between sentences in article mode, so you can say them aloud.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ShadowGapCountdownProps {
+  endsAt: number; // Date.now() timestamp at which playback continues
+  seconds: number;
+}
+
+// Shown while playback waits in a gap; the bar empties as the learner's time runs out
+export const ShadowGapCountdown: React.FC<ShadowGapCountdownProps> = ({ endsAt, seconds }) => {
+  const [remaining, setRemaining] = useState(seconds);
+
+  useEffect(() => {
+    const tick = () => setRemaining(Math.max(0, (endsAt - Date.now()) / 1000));
+    tick();
+    const timer = window.setInterval(tick, 100);
+    return () => window.clearInterval(timer);
+  }, [endsAt]);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-sm p-3 px-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs font-bold text-white uppercase tracking-wider">
+          <Hourglass size={14} className="text-[#d44c47]" /> Your turn: repeat it
+        </span>
+        <span className="font-mono text-xs text-zinc-400">{remaining.toFixed(1)}s</span>
+      </div>
+      <div className="h-0.5 bg-zinc-800 overflow-hidden">
+        <div className="h-full bg-[#d44c47]" style={{ width: `${seconds > 0 ? (remaining / seconds) * 100 : 0}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { TakePlayback } from '../utils/shadowing';
+
+interface ShadowTakeBarProps {
+  playback: TakePlayback;
+  onChangePlayback: (playback: TakePlayback) => void;
+  offset: number; // Manual sync correction, ms
+  onChangeOffset: (ms: number) => void;
+  isPlaying: boolean;
+  onPlay: () => void;
+  onDelete: () => void;
+}
+
+const PLAYBACKS: { playback: TakePlayback; label: string; title: string }[] = [
+  { playback: 'original', label: 'Original', title: 'The original only' },
+  { playback: 'take', label: 'Take', title: 'Your voice only' },
+  { playback: 'stereo', label: 'L · R', title: 'Original on the left, your voice on the right' },
+  { playback: 'mixed', label: 'Mix', title: 'Both together in each ear' },
+];
+
+export const ShadowTakeBar: React.FC<ShadowTakeBarProps> = ({ playback, onChangePlayback, offset, onChangeOffset, isPlaying, onPlay, onDelete }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-sm p-3 px-4 space-y-3">
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3">
+        <div className="w-2 h-2 rounded-full bg-[#1db954]" />
+        <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Shadow Take</span>
+      </div>
+      <div className="flex gap-1">
+        {PLAYBACKS.map(p => (
+          <button
+            key={p.playback}
+            onClick={() => onChangePlayback(p.playback)}
+            className={`px-2 py-1 rounded-sm text-[10px] font-bold uppercase tracking-wider transition-colors ${playback === p.playback ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+            title={p.title}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-4">
+        <button onClick={onPlay} className="p-1 hover:text-white text-zinc-500 transition-colors">
+          {isPlaying ? <Square size={16} fill="currentColor" /> : <Play size={16} fill="currentColor" />}
+        </button>
+        <button onClick={onDelete} className="p-1 hover:text-[#d44c47] text-zinc-500 transition-colors" title="Delete Take">
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+    {playback !== 'original' && playback !== 'take' && (
+      <label className="flex items-center gap-3 text-[10px] text-zinc-500">
+        <span className="flex-none uppercase font-bold tracking-wider">Sync</span>
+        <input
+          type="range" min={-300} max={300} step={10} value={offset}
+          onChange={(e) => onChangeOffset(parseInt(e.target.value, 10))}
+          className="flex-1 h-1 bg-zinc-800 appearance-none cursor-pointer accent-[#d44c47]"
+          title="Move your voice earlier or later if it does not line up with the original"
+        />
+        <span className="flex-none w-14 text-right font-mono text-white">{offset > 0 ? '+' : ''}{offset} ms</span>
+      </label>
+    )}
+  </div>
+);
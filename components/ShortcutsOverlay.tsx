@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { Keymap, KeyAction, KeyActionGroup, KEY_ACTIONS, DEFAULT_KEYMAP, bindingFromEvent, isReservedBinding, findConflicts, formatBinding } from '../utils/keymap';
+
+interface ShortcutsOverlayProps {
+  keymap: Keymap;
+  onClose: () => void;
+  onSave: (keymap: Keymap) => void;
+}
+
+const GROUPS: KeyActionGroup[] = ['Playback', 'View', 'Loop', 'Recording'];
+
+const labelOf = (id: KeyAction) => KEY_ACTIONS.find(a => a.id === id)?.label ?? id;
+
+const KeyCaps: React.FC<{ binding: string | null }> = ({ binding }) => {
+  if (!binding) return <span className="text-[10px] text-zinc-600 uppercase tracking-wider">None</span>;
+  return (
+    <span className="flex items-center gap-1">
+      {formatBinding(binding).map((cap, i) => (
+        <kbd key={i} className="min-w-[1.5rem] px-1.5 py-0.5 rounded-sm border border-zinc-700 bg-zinc-900 font-mono text-[10px] text-white text-center">
+          {cap}
+        </kbd>
+      ))}
+    </span>
+  );
+};
+
+// Cheat sheet of the reader's shortcuts; clicking a key lets the next key press replace it
+export const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ keymap, onClose, onSave }) => {
+  const [draft, setDraft] = useState<Keymap>(keymap);
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const conflicts = findConflicts(draft);
+  const conflictsWith = (id: KeyAction) => {
+    const binding = draft[id];
+    return binding ? (conflicts.get(binding) ?? []).filter(other => other !== id) : [];
+  };
+
+  // Capture phase, so the reader never sees the keys typed in here
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!capturing) {
+        // Esc, or the key that opened the sheet, closes it again
+        if (e.key === 'Escape' || bindingFromEvent(e) === keymap.showShortcuts) {
+          e.preventDefault();
+          e.stopPropagation();
+          onClose();
+        }
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      const binding = bindingFromEvent(e);
+      if (!binding) return; // Wait for the key that completes the combination
+      if (isReservedBinding(binding)) {
+        setNotice(`${formatBinding(binding).join(' + ')} belongs to the browser. Pick another key.`);
+        return;
+      }
+      setDraft(prev => ({ ...prev, [capturing]: binding }));
+      setNotice(null);
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, keymap, onClose]);
+
+  const startCapture = (id: KeyAction) => {
+    setNotice(null);
+    setCapturing(prev => (prev === id ? null : id));
+  };
+
+  const unbind = (id: KeyAction) => {
+    setDraft(prev => ({ ...prev, [id]: null }));
+    if (capturing === id) setCapturing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="w-full max-w-3xl bg-[#09090b] rounded-sm shadow-2xl overflow-hidden border border-zinc-800 flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-[#09090b]">
+          <div>
+            <h2 className="text-2xl font-serif font-bold text-white">Keyboard Shortcuts</h2>
+            <p className="text-xs text-zinc-500 mt-1">Click a key to change it, then press the new key or combination.</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-8 grid md:grid-cols-2 gap-x-10 gap-y-8 overflow-y-auto custom-scrollbar flex-1">
+          {GROUPS.map(group => (
+            <div key={group} className="space-y-1">
+              <div className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans mb-3">{group}</div>
+              {KEY_ACTIONS.filter(a => a.group === group).map(({ id, label }) => {
+                const clashes = conflictsWith(id);
+                return (
+                  <div key={id} className="group">
+                    <div className="flex items-center justify-between gap-3 py-1">
+                      <span className="text-sm text-zinc-300">{label}</span>
+                      <div className="flex items-center gap-1 flex-none">
+                        <button
+                          onClick={() => startCapture(id)}
+                          className={`px-2 py-1 rounded-sm border transition-colors ${
+                            capturing === id ? 'border-white' :
+                            clashes.length > 0 ? 'border-[#d44c47]' :
+                            'border-transparent hover:border-zinc-700'
+                          }`}
+                          title="Change Shortcut"
+                        >
+                          {capturing === id
+                            ? <span className="text-[10px] text-white uppercase tracking-wider animate-pulse">Press a key…</span>
+                            : <KeyCaps binding={draft[id]} />}
+                        </button>
+                        <button
+                          onClick={() => unbind(id)}
+                          className={`p-1 text-zinc-600 hover:text-[#d44c47] transition-all ${draft[id] ? 'opacity-0 group-hover:opacity-100' : 'invisible'}`}
+                          title="Remove Shortcut"
+                        >
+                          <X size={12} />
+                        </button>
+                      </div>
+                    </div>
+                    {clashes.length > 0 && (
+                      <div className="text-[10px] text-[#d44c47] text-right pb-1">
+                        Also used for {clashes.map(labelOf).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 bg-[#09090b] border-t border-zinc-800 flex justify-between items-center gap-4">
+          <button
+            onClick={() => { setDraft(DEFAULT_KEYMAP); setCapturing(null); setNotice(null); }}
+            className="flex items-center gap-2 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+          >
+            <RotateCcw size={14} />
+            Defaults
+          </button>
+          <div className="flex items-center gap-4">
+            {(notice || conflicts.size > 0) && (
+              <span className="text-[10px] text-[#d44c47]">{notice ?? 'Give every key a single action to save.'}</span>
+            )}
+            <button
+              onClick={onClose}
+              className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={conflicts.size > 0}
+              className="px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest bg-[#d44c47] hover:bg-[#ff5e5e] disabled:bg-zinc-800 disabled:text-zinc-600 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge } from 'lucide-react';
+
+interface SpeedControlProps {
+  rate: number;
+  ramp: boolean;
+  rampAvailable: boolean; // Ramps need sentence mode, more than one pass and a slow first pass
+  onChangeRate: (rate: number) => void;
+  onToggleRamp: () => void;
+}
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 1.5;
+
+const PRESETS = [0.5, 0.75, 1, 1.25, 1.5];
+
+export const formatRate = (rate: number) => `${Number(rate.toFixed(2))}×`;
+
+export const SpeedControl: React.FC<SpeedControlProps> = ({ rate, ramp, rampAvailable, onChangeRate, onToggleRamp }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className={`h-10 px-2 flex items-center justify-center rounded-full font-mono text-xs font-bold transition-colors ${rate !== 1 ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+        title="Playback Speed"
+      >
+        {formatRate(rate)}
+        {ramp && rampAvailable && <span className="ml-0.5 text-[#d44c47]">↗</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 w-56 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 p-3 space-y-3">
+          <div className="flex items-center justify-between text-[10px] font-bold uppercase text-zinc-500 tracking-widest">
+            <span className="flex items-center gap-1"><Gauge size={12} /> Speed</span>
+            <span className="font-mono text-white">{formatRate(rate)}</span>
+          </div>
+          <input
+            type="range"
+            min={MIN_PLAYBACK_RATE}
+            max={MAX_PLAYBACK_RATE}
+            step={0.05}
+            value={rate}
+            onChange={(e) => onChangeRate(parseFloat(e.target.value))}
+            className="w-full h-1 bg-zinc-800 appearance-none cursor-pointer accent-[#d44c47]"
+          />
+          <div className="flex justify-between">
+            {PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => onChangeRate(preset)}
+                className={`px-1.5 py-0.5 rounded-sm font-mono text-[10px] transition-colors ${preset === rate ? 'bg-white text-black' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {formatRate(preset)}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onToggleRamp}
+            disabled={!rampAvailable}
+            className="w-full flex items-center justify-between pt-3 border-t border-zinc-800 text-left disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <span>
+              <span className="block text-xs font-bold text-white uppercase tracking-wider">Speed Ramp</span>
+              <span className="block text-[10px] text-zinc-500">
+                {rampAvailable ? 'Loops build up to 1× speed' : 'Sentence mode, 2+ loops, below 1×'}
+              </span>
+            </span>
+            <span className={`w-8 h-4 rounded-full p-0.5 transition-colors ${ramp ? 'bg-[#d44c47]' : 'bg-zinc-700'}`}>
+              <span className={`block w-3 h-3 rounded-full bg-white transition-transform ${ramp ? 'translate-x-4' : ''}`} />
+            </span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Captions } from 'lucide-react';
+import { Material } from '../types';
+import { SubtitleFormat, downloadSubtitles } from '../utils/subtitles';
+
+interface SubtitleExportMenuProps {
+  material: Material;
+  buttonClassName: string;
+  iconSize?: number;
+  align?: 'left' | 'right';
+}
+
+const FORMATS: { format: SubtitleFormat; label: string; hint: string }[] = [
+  { format: 'srt', label: 'SRT', hint: 'Video players' },
+  { format: 'vtt', label: 'WebVTT', hint: 'Browsers & web' },
+  { format: 'lrc', label: 'LRC', hint: 'Music players' },
+];
+
+export const SubtitleExportMenu: React.FC<SubtitleExportMenuProps> = ({ material, buttonClassName, iconSize = 14, align = 'right' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (e: React.MouseEvent, format: SubtitleFormat) => {
+    e.stopPropagation();
+    downloadSubtitles(material.title, material.segments, format);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={(e) => { e.stopPropagation(); setIsOpen(o => !o); }}
+        disabled={material.segments.length === 0}
+        className={buttonClassName}
+        title="Export Timings"
+      >
+        <Captions size={iconSize} />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute top-full mt-2 ${align === 'right' ? 'right-0' : 'left-0'} w-44 bg-[#09090b] border border-zinc-800 rounded-sm shadow-2xl z-30 py-1`}>
+          <div className="px-3 py-2 text-[10px] font-bold uppercase text-zinc-500 tracking-widest border-b border-zinc-800">Export Timings</div>
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={(e) => handleExport(e, format)}
+              className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-zinc-900 transition-colors"
+            >
+              <span className="text-xs font-bold text-white uppercase tracking-wider">{label}</span>
+              <span className="text-[10px] text-zinc-500">{hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,538 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, Scissors, Merge, ZoomIn, ZoomOut, Headphones, Square, Minus, Plus } from 'lucide-react';
+import { Material, Segment } from '../types';
+import { getAudioBlob } from '../utils/storage';
+import { decodeAudioBlob, computeWaveformPeaks } from '../utils/audioUtils';
+import { tokenizeWords } from '../utils/wordTimings';
+
+interface TimingEditorProps {
+  material: Material;
+  onClose: () => void;
+  onSave: (material: Material) => void;
+}
+
+type Edge = 'start' | 'end';
+
+const NUDGE_STEP = 0.05; // 50 ms
+const MIN_SEGMENT_LENGTH = 0.1;
+const LINK_TOLERANCE = 0.001; // Boundaries closer than this move together
+const WAVEFORM_HEIGHT = 160;
+const MIN_ZOOM = 5; // px per second
+const MAX_ZOOM = 400;
+
+// --- Segment Operations (pure) ---
+
+// Gives a segment new edges; aligner word timings are clamped into them so none falls outside its segment
+const setSpan = (seg: Segment, startTime: number, endTime: number): Segment => ({
+  ...seg,
+  startTime,
+  endTime,
+  words: seg.words?.map(w => ({
+    ...w,
+    startTime: Math.min(endTime, Math.max(startTime, w.startTime)),
+    endTime: Math.min(endTime, Math.max(startTime, w.endTime)),
+  })),
+});
+
+// Moves one edge of a segment, keeping it inside its neighbours.
+// When two segments touch, the shared boundary is dragged as one.
+const moveBoundary = (segments: Segment[], index: number, edge: Edge, time: number, duration: number): Segment[] => {
+  const seg = segments[index];
+  const prev = segments[index - 1];
+  const next = segments[index + 1];
+  const updated = [...segments];
+
+  if (edge === 'start') {
+    const linked = prev && Math.abs(prev.endTime - seg.startTime) < LINK_TOLERANCE;
+    const lower = prev ? (linked ? prev.startTime + MIN_SEGMENT_LENGTH : prev.endTime) : 0;
+    const t = Math.max(lower, Math.min(seg.endTime - MIN_SEGMENT_LENGTH, time));
+    updated[index] = setSpan(seg, t, seg.endTime);
+    if (linked) updated[index - 1] = setSpan(prev, prev.startTime, t);
+  } else {
+    const linked = next && Math.abs(next.startTime - seg.endTime) < LINK_TOLERANCE;
+    const upper = next ? (linked ? next.endTime - MIN_SEGMENT_LENGTH : next.startTime) : duration;
+    const t = Math.min(upper, Math.max(seg.startTime + MIN_SEGMENT_LENGTH, time));
+    updated[index] = setSpan(seg, seg.startTime, t);
+    if (linked) updated[index + 1] = setSpan(next, t, next.endTime);
+  }
+  return updated;
+};
+
+// Splits before word `wordIndex`; the two halves touch at `time`
+const splitSegment = (segments: Segment[], index: number, wordIndex: number, time: number): Segment[] => {
+  const seg = segments[index];
+  const words = tokenizeWords(seg.text);
+  if (wordIndex <= 0 || wordIndex >= words.length) return segments;
+
+  const t = Math.max(seg.startTime + MIN_SEGMENT_LENGTH, Math.min(seg.endTime - MIN_SEGMENT_LENGTH, time));
+  const wordTimings = seg.words?.length === words.length ? seg.words : undefined;
+  const first = setSpan({ ...seg, text: words.slice(0, wordIndex).join(' '), words: wordTimings?.slice(0, wordIndex) }, seg.startTime, t);
+  const second = setSpan({ ...seg, id: `${seg.id}-s${Date.now()}`, text: words.slice(wordIndex).join(' '), words: wordTimings?.slice(wordIndex) }, t, seg.endTime);
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+const mergeWithNext = (segments: Segment[], index: number): Segment[] => {
+  const seg = segments[index];
+  const next = segments[index + 1];
+  if (!next) return segments;
+  const words = seg.words && next.words ? [...seg.words, ...next.words] : undefined;
+  const merged: Segment = { ...seg, text: `${seg.text} ${next.text}`, endTime: next.endTime, words };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+// Best guess for a split point when the cursor isn't inside the segment: proportional to characters
+const estimateWordTime = (seg: Segment, wordIndex: number): number => {
+  const words = tokenizeWords(seg.text);
+  const before = words.slice(0, wordIndex).join(' ').length + 1;
+  return seg.startTime + (before / (seg.text.length + 1)) * (seg.endTime - seg.startTime);
+};
+
+const formatTimestamp = (t: number) => {
+  const mins = Math.floor(t / 60);
+  const secs = (t % 60).toFixed(2).padStart(5, '0');
+  return `${mins}:${secs}`;
+};
+
+export const TimingEditor: React.FC<TimingEditorProps> = ({ material, onClose, onSave }) => {
+  const [segments, setSegments] = useState<Segment[]>(material.segments);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(material.segments.length > 0 ? 0 : -1);
+  const [selectedEdge, setSelectedEdge] = useState<Edge>('start');
+  const [cursorTime, setCursorTime] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Viewport
+  const [zoom, setZoom] = useState(60); // px per second
+  const [viewStart, setViewStart] = useState(0);
+  const [width, setWidth] = useState(800);
+
+  // Audition
+  const [playheadTime, setPlayheadTime] = useState<number | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ index: number; edge: Edge } | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const playheadFrameRef = useRef<number>();
+
+  const duration = buffer?.duration ?? (segments[segments.length - 1]?.endTime || 0);
+  const visibleSeconds = width / zoom;
+
+  // --- Load & Decode ---
+  useEffect(() => {
+    let cancelled = false;
+    getAudioBlob(material.id)
+      .then(blob => {
+        if (!blob) throw new Error("No audio stored for this session.");
+        return decodeAudioBlob(blob);
+      })
+      .then(decoded => { if (!cancelled) setBuffer(decoded); })
+      .catch(e => {
+        console.error("Waveform decode failed", e);
+        if (!cancelled) setLoadError(e instanceof Error ? e.message : "Could not decode audio.");
+      });
+    return () => { cancelled = true; };
+  }, [material.id]);
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.max(200, entries[0].contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stopAudition();
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  // --- Draw Waveform ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !buffer) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(width * ratio);
+    canvas.height = Math.floor(WAVEFORM_HEIGHT * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+    const columns = Math.floor(width);
+    const { min, max } = computeWaveformPeaks(buffer, viewStart, viewStart + visibleSeconds, columns);
+    const mid = WAVEFORM_HEIGHT / 2;
+    ctx.fillStyle = '#52525b';
+    for (let x = 0; x < columns; x++) {
+      const top = mid - max[x] * mid;
+      const bottom = mid - min[x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [buffer, viewStart, zoom, width]);
+
+  // --- Viewport Helpers ---
+  const clampViewStart = (t: number) => Math.max(0, Math.min(Math.max(0, duration - visibleSeconds), t));
+
+  const revealTime = (t: number) => {
+    if (t < viewStart || t > viewStart + visibleSeconds) {
+      setViewStart(clampViewStart(t - visibleSeconds / 4));
+    }
+  };
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return Math.max(0, Math.min(duration, viewStart + (clientX - rect.left) / zoom));
+  };
+
+  const changeZoom = (factor: number) => {
+    const center = viewStart + visibleSeconds / 2;
+    const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom * factor));
+    setZoom(nextZoom);
+    setViewStart(Math.max(0, center - width / nextZoom / 2));
+  };
+
+  const selectSegment = (index: number) => {
+    setSelectedIndex(index);
+    if (segments[index]) revealTime(segments[index].startTime);
+  };
+
+  // --- Editing ---
+  const applyEdit = (updated: Segment[]) => {
+    setSegments(updated);
+    setIsDirty(true);
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent, index: number, edge: Edge) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { index, edge };
+    setSelectedIndex(index);
+    setSelectedEdge(edge);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const { index, edge } = dragRef.current;
+    applyEdit(moveBoundary(segments, index, edge, timeFromClientX(e.clientX), duration));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWaveformClick = (e: React.MouseEvent) => {
+    const t = timeFromClientX(e.clientX);
+    setCursorTime(t);
+    const idx = segments.findIndex(s => t >= s.startTime && t < s.endTime);
+    if (idx !== -1) setSelectedIndex(idx);
+  };
+
+  const nudge = (edge: Edge, delta: number) => {
+    if (selectedIndex === -1) return;
+    const seg = segments[selectedIndex];
+    const current = edge === 'start' ? seg.startTime : seg.endTime;
+    setSelectedEdge(edge);
+    applyEdit(moveBoundary(segments, selectedIndex, edge, current + delta, duration));
+  };
+
+  const handleSplit = (wordIndex: number) => {
+    if (selectedIndex === -1) return;
+    const seg = segments[selectedIndex];
+    const useCursor = cursorTime !== null && cursorTime > seg.startTime && cursorTime < seg.endTime;
+    const time = useCursor ? cursorTime! : estimateWordTime(seg, wordIndex);
+    applyEdit(splitSegment(segments, selectedIndex, wordIndex, time));
+    setCursorTime(null);
+  };
+
+  const handleMerge = () => {
+    if (selectedIndex === -1 || selectedIndex >= segments.length - 1) return;
+    applyEdit(mergeWithNext(segments, selectedIndex));
+  };
+
+  // --- Audition ---
+  const stopAudition = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try { sourceRef.current.stop(); } catch { /* already stopped */ }
+      sourceRef.current = null;
+    }
+    if (playheadFrameRef.current) cancelAnimationFrame(playheadFrameRef.current);
+    setPlayheadTime(null);
+  };
+
+  const audition = (from: number, to: number) => {
+    if (!buffer) return;
+    stopAudition();
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    const ctx = audioContextRef.current;
+    ctx.resume();
+
+    // Buffer sources start and stop on exact sample times, unlike <audio> seeking
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    const startedAt = ctx.currentTime;
+    source.start(startedAt, from, Math.max(0, to - from));
+    source.onended = () => stopAudition();
+    sourceRef.current = source;
+
+    const tick = () => {
+      setPlayheadTime(from + (ctx.currentTime - startedAt));
+      playheadFrameRef.current = requestAnimationFrame(tick);
+    };
+    playheadFrameRef.current = requestAnimationFrame(tick);
+  };
+
+  const auditionSelected = () => {
+    if (playheadTime !== null) {
+      stopAudition();
+      return;
+    }
+    const seg = segments[selectedIndex];
+    if (seg) audition(seg.startTime, seg.endTime);
+  };
+
+  const handleSave = () => {
+    stopAudition();
+    onSave({ ...material, segments });
+  };
+
+  // --- Keyboard: [ / ] pick an edge, arrows nudge, Space auditions ---
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
+      if (e.code === 'BracketLeft') setSelectedEdge('start');
+      if (e.code === 'BracketRight') setSelectedEdge('end');
+      if (e.code === 'ArrowLeft' || e.code === 'ArrowRight') {
+        e.preventDefault();
+        nudge(selectedEdge, e.code === 'ArrowLeft' ? -NUDGE_STEP : NUDGE_STEP);
+      }
+      if (e.code === 'Space') {
+        e.preventDefault();
+        auditionSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [segments, selectedIndex, selectedEdge, playheadTime, buffer]);
+
+  const selected = segments[selectedIndex];
+  const selectedWords = selected ? tokenizeWords(selected.text) : [];
+  const toX = (t: number) => (t - viewStart) * zoom;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-5xl bg-[#09090b] rounded-sm shadow-2xl overflow-hidden border border-zinc-800 flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-[#09090b]">
+          <div>
+            <h2 className="text-2xl font-serif font-bold text-white">Edit Timings</h2>
+            <p className="text-xs text-zinc-500 font-sans mt-1 truncate max-w-md">{material.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar flex-1">
+
+          {/* Waveform */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-bold uppercase text-zinc-500 tracking-widest font-sans">Waveform</label>
+              <div className="flex items-center gap-2 text-zinc-500">
+                <span className="text-[10px] font-mono">
+                  {formatTimestamp(viewStart)} – {formatTimestamp(Math.min(duration, viewStart + visibleSeconds))}
+                </span>
+                <button onClick={() => changeZoom(1 / 1.5)} className="p-1 hover:text-white transition-colors" title="Zoom Out">
+                  <ZoomOut size={16} />
+                </button>
+                <button onClick={() => changeZoom(1.5)} className="p-1 hover:text-white transition-colors" title="Zoom In">
+                  <ZoomIn size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div
+              ref={viewportRef}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onClick={handleWaveformClick}
+              onWheel={(e) => setViewStart(clampViewStart(viewStart + (e.deltaX || e.deltaY) / zoom))}
+              className="relative w-full bg-zinc-950 border border-zinc-800 rounded-sm overflow-hidden select-none cursor-crosshair"
+              style={{ height: WAVEFORM_HEIGHT }}
+            >
+              {!buffer && (
+                <div className="absolute inset-0 flex items-center justify-center text-xs uppercase tracking-widest text-zinc-600 gap-2">
+                  {loadError ? loadError : <><Loader2 size={14} className="animate-spin" /> Decoding audio...</>}
+                </div>
+              )}
+              <canvas ref={canvasRef} className="absolute inset-0" style={{ width, height: WAVEFORM_HEIGHT }} />
+
+              {/* Segment regions */}
+              {segments.map((seg, index) => {
+                if (seg.endTime < viewStart || seg.startTime > viewStart + visibleSeconds) return null;
+                const isSelected = index === selectedIndex;
+                return (
+                  <div
+                    key={seg.id}
+                    className={`absolute top-0 bottom-0 border-y-2 transition-colors ${isSelected ? 'bg-[#d44c47]/20 border-[#d44c47]' : 'bg-white/5 border-transparent hover:bg-white/10'}`}
+                    style={{ left: toX(seg.startTime), width: Math.max(1, (seg.endTime - seg.startTime) * zoom) }}
+                  >
+                    <span className="absolute top-1 left-2 text-[10px] font-mono text-zinc-400 pointer-events-none">{index + 1}</span>
+                    {(['start', 'end'] as Edge[]).map(edge => (
+                      <div
+                        key={edge}
+                        onPointerDown={(e) => handleHandlePointerDown(e, index, edge)}
+                        onClick={(e) => e.stopPropagation()}
+                        className={`absolute top-0 bottom-0 w-2 -ml-1 cursor-ew-resize ${edge === 'start' ? 'left-0' : 'right-0 -mr-1'}`}
+                      >
+                        <div className={`mx-auto h-full w-0.5 ${isSelected && selectedEdge === edge ? 'bg-white' : 'bg-[#d44c47]'}`} />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+
+              {/* Split cursor & audition playhead */}
+              {cursorTime !== null && (
+                <div className="absolute top-0 bottom-0 w-px bg-yellow-500 pointer-events-none" style={{ left: toX(cursorTime) }} />
+              )}
+              {playheadTime !== null && (
+                <div className="absolute top-0 bottom-0 w-px bg-[#1db954] pointer-events-none" style={{ left: toX(playheadTime) }} />
+              )}
+            </div>
+
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, duration - visibleSeconds)}
+              step={0.01}
+              value={viewStart}
+              onChange={(e) => setViewStart(parseFloat(e.target.value))}
+              className="w-full h-1 bg-zinc-800 appearance-none cursor-pointer accent-zinc-500"
+            />
+          </div>
+
+          {/* Selected segment tools */}
+          {selected && (
+            <div className="bg-zinc-900/50 border-l-2 border-[#d44c47] p-4 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-6 font-mono text-sm text-white">
+                  {(['start', 'end'] as Edge[]).map(edge => (
+                    <div key={edge} className="flex items-center gap-2">
+                      <button
+                        onClick={() => setSelectedEdge(edge)}
+                        className={`text-[10px] font-sans font-bold uppercase tracking-widest ${selectedEdge === edge ? 'text-white' : 'text-zinc-500 hover:text-white'}`}
+                      >
+                        {edge}
+                      </button>
+                      <button onClick={() => nudge(edge, -NUDGE_STEP)} className="p-1 text-zinc-500 hover:text-white" title="-50 ms">
+                        <Minus size={12} />
+                      </button>
+                      <span>{formatTimestamp(edge === 'start' ? selected.startTime : selected.endTime)}</span>
+                      <button onClick={() => nudge(edge, NUDGE_STEP)} className="p-1 text-zinc-500 hover:text-white" title="+50 ms">
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={auditionSelected}
+                    disabled={!buffer}
+                    className="flex items-center gap-2 px-3 py-2 rounded-full border border-zinc-700 text-xs font-bold uppercase tracking-wider text-white hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                  >
+                    {playheadTime !== null ? <Square size={14} fill="currentColor" /> : <Headphones size={14} />} Audition
+                  </button>
+                  <button
+                    onClick={handleMerge}
+                    disabled={selectedIndex >= segments.length - 1}
+                    className="flex items-center gap-2 px-3 py-2 rounded-full border border-zinc-700 text-xs font-bold uppercase tracking-wider text-white hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                    title="Merge with next segment"
+                  >
+                    <Merge size={14} /> Merge Next
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2 text-[10px] font-bold uppercase text-zinc-500 tracking-widest mb-2">
+                  <Scissors size={12} /> Click a word to split before it
+                  {cursorTime !== null && cursorTime > selected.startTime && cursorTime < selected.endTime && (
+                    <span className="text-yellow-500 normal-case tracking-normal font-mono">at {formatTimestamp(cursorTime)}</span>
+                  )}
+                </div>
+                <p className="font-serif text-lg leading-relaxed text-zinc-300">
+                  {selectedWords.map((word, i) => (
+                    <React.Fragment key={i}>
+                      {i > 0 && (
+                        <button
+                          onClick={() => handleSplit(i)}
+                          className="inline-block w-2 h-5 align-middle mx-0.5 rounded-sm hover:bg-[#d44c47] transition-colors"
+                          title={`Split before "${word}"`}
+                        />
+                      )}
+                      <span>{word}</span>
+                    </React.Fragment>
+                  ))}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Segment list */}
+          <div className="space-y-1">
+            {segments.map((seg, index) => (
+              <button
+                key={seg.id}
+                onClick={() => selectSegment(index)}
+                className={`w-full flex items-start gap-4 text-left px-3 py-2 rounded-sm transition-colors ${index === selectedIndex ? 'bg-zinc-900 text-white' : 'text-zinc-500 hover:bg-zinc-900/50 hover:text-zinc-300'}`}
+              >
+                <span className="font-mono text-[10px] pt-1 w-28 flex-none">
+                  {formatTimestamp(seg.startTime)} – {formatTimestamp(seg.endTime)}
+                </span>
+                <span className="font-serif text-sm line-clamp-1">{seg.text}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 bg-[#09090b] border-t border-zinc-800 flex justify-between items-center">
+          <div className="text-[10px] text-zinc-600 uppercase tracking-widest hidden sm:block">
+            [ ] select edge • ← → nudge 50 ms • Space audition
+          </div>
+          <div className="flex gap-4 items-center">
+            <button
+              onClick={onClose}
+              className="px-6 py-3 font-sans font-bold text-zinc-500 hover:text-white transition-colors uppercase text-xs tracking-widest"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty}
+              className={`
+                flex items-center gap-2 px-8 py-3 rounded-full font-sans font-bold text-white shadow-lg transition-all text-xs uppercase tracking-widest
+                ${!isDirty ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed' : 'bg-[#d44c47] hover:bg-[#ff5e5e]'}
+              `}
+            >
+              Save Timings
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
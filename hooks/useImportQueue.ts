@@ -0,0 +1,123 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Material } from '../types';
+import { ValidationResult } from '../utils/alignmentValidation';
+import { ImportInput, ImportStage, runImport, buildMaterial, readAudio } from '../services/importPipeline';
+
+export type ImportJobStatus = 'queued' | 'running' | 'review' | 'done' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  id: string;
+  input: ImportInput;
+  status: ImportJobStatus;
+  stage: ImportStage | null;
+  detail: string; // What the job is doing right now, or why it stopped
+  progress: number | null; // 0..1 while aligning long recordings in chunks
+  review?: { result: ValidationResult; duration: number };
+}
+
+// Saves the material and, when given, its audio. Rejects when storage fails.
+export type SaveMaterial = (material: Material, audioBlob: Blob | null) => Promise<void>;
+
+// Runs imports one at a time in the background. Alignment is heavy on the network and CPU,
+// so queued jobs wait for the running one instead of competing with it.
+export const useImportQueue = (save: SaveMaterial) => {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const runningId = useRef<string | null>(null);
+  const controllers = useRef(new Map<string, AbortController>());
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  const updateJob = useCallback((id: string, patch: Partial<ImportJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+  }, []);
+
+  const saveJob = useCallback(async (job: ImportJob, material: Material) => {
+    updateJob(job.id, { stage: 'save', detail: "Saving..." });
+    await saveRef.current(material, job.input.replacesAudio ? await readAudio(job.input.audioBlob) : null);
+  }, [updateJob]);
+
+  const runJob = useCallback(async (job: ImportJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    runningId.current = job.id;
+
+    let patch: Partial<ImportJob>;
+    try {
+      const outcome = await runImport(job.input, {
+        onStage: (stage, detail) => updateJob(job.id, { stage, detail }),
+        onProgress: progress => updateJob(job.id, { progress }),
+      }, controller.signal);
+
+      if (outcome.kind === 'review') {
+        patch = { status: 'review', detail: "Needs review before saving", review: { result: outcome.result, duration: outcome.duration } };
+      } else {
+        controller.signal.throwIfAborted();
+        await saveJob(job, buildMaterial(job.input, outcome.segments, outcome.duration));
+        patch = { status: 'done', detail: "Added to library" };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        patch = { status: 'cancelled', detail: "Cancelled" };
+      } else {
+        console.error("Import failed", error);
+        patch = { status: 'failed', detail: error instanceof Error ? error.message : "Failed to process audio." };
+      }
+    }
+
+    // Free the runner before publishing the result, so the state update starts the next job
+    controllers.current.delete(job.id);
+    runningId.current = null;
+    updateJob(job.id, { ...patch, progress: null });
+  }, [updateJob, saveJob]);
+
+  useEffect(() => {
+    if (runningId.current) return;
+    const next = jobs.find(job => job.status === 'queued');
+    if (!next) return;
+    updateJob(next.id, { status: 'running', detail: "Starting..." });
+    runJob(next);
+  }, [jobs, runJob, updateJob]);
+
+  // Abort whatever is running when the app goes away
+  useEffect(() => () => controllers.current.forEach(controller => controller.abort()), []);
+
+  // Returns the job id, so callers can follow their own jobs
+  const enqueue = useCallback((input: ImportInput): string => {
+    const job: ImportJob = { id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, input, status: 'queued', stage: null, detail: "Waiting...", progress: null };
+    setJobs(prev => [...prev, job]);
+    return job.id;
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+      updateJob(id, { detail: "Cancelling..." });
+    } else {
+      updateJob(id, { status: 'cancelled', detail: "Cancelled" });
+    }
+  }, [updateJob]);
+
+  const retry = useCallback((id: string) => {
+    updateJob(id, { status: 'queued', stage: null, detail: "Waiting...", review: undefined });
+  }, [updateJob]);
+
+  const dismiss = useCallback((id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  // Saves the repaired segments of a job that stopped for review
+  const acceptReview = useCallback(async (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job?.review) return;
+    try {
+      await saveJob(job, buildMaterial(job.input, job.review.result.segments, job.review.duration));
+      updateJob(id, { status: 'done', detail: "Added to library", review: undefined });
+    } catch (error) {
+      console.error("Import failed", error);
+      updateJob(id, { status: 'failed', detail: error instanceof Error ? error.message : "Failed to save." });
+    }
+  }, [jobs, saveJob, updateJob]);
+
+  return { jobs, enqueue, cancel, retry, dismiss, acceptReview };
+};
@@ -0,0 +1,215 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Material } from '../types';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+interface PlaylistState {
+  queue: string[]; // Material ids in the order they were added
+  order: number[]; // Playback order: indexes into `queue`, shuffled or not
+  position: number; // Index into `order` of the material playing now
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+const PLAYLIST_KEY = 'blurlisten_playlist';
+
+const EMPTY: PlaylistState = { queue: [], order: [], position: 0, shuffle: false, repeat: 'off' };
+
+const loadPlaylist = (): PlaylistState => {
+  try {
+    const saved = localStorage.getItem(PLAYLIST_KEY);
+    return saved ? { ...EMPTY, ...JSON.parse(saved) } : EMPTY;
+  } catch (e) {
+    console.warn("Failed to load playlist", e);
+    return EMPTY;
+  }
+};
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+// Fisher–Yates, keeping `first` (when given) at the front so the current material goes on playing
+const shuffled = (indexes: number[], first?: number) => {
+  const rest = indexes.filter(i => i !== first);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return first === undefined ? rest : [first, ...rest];
+};
+
+// Plays queued materials back to back from start to end, like article mode, on an audio element of its
+// own: playback carries on while the library is open. Materials without audio cannot be queued.
+export const usePlaylist = (materials: Material[]) => {
+  const [state, setState] = useState<PlaylistState>(loadPlaylist);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const advanceRef = useRef<() => void>(() => {});
+  const playOnLoadRef = useRef(false); // Set when moving to another material, which should start once loaded
+
+  const currentId = state.queue[state.order[state.position]] ?? null;
+  const current = materials.find(m => m.id === currentId) ?? null;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PLAYLIST_KEY, JSON.stringify(state));
+    } catch (e) {
+      console.warn("Storage quota exceeded", e);
+    }
+  }, [state]);
+
+  useEffect(() => {
+    const audio = new Audio();
+    audio.preservesPitch = true;
+    audio.ontimeupdate = () => setCurrentTime(audio.currentTime);
+    audio.onloadedmetadata = () => setDuration(audio.duration);
+    audio.onplay = () => setIsPlaying(true);
+    audio.onpause = () => setIsPlaying(false);
+    audio.onended = () => advanceRef.current();
+    audioRef.current = audio;
+    return () => {
+      audio.pause();
+      audio.removeAttribute('src');
+    };
+  }, []);
+
+  // Load the current material whenever it changes, or once its audio has been restored from storage
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const url = current?.audioUrl ?? '';
+    if (audio.src === url || (!url && !audio.getAttribute('src'))) return;
+    if (url) audio.src = url;
+    else audio.removeAttribute('src');
+    setCurrentTime(0);
+    if (url && playOnLoadRef.current) audio.play().catch(e => console.error("Playback error", e));
+    playOnLoadRef.current = false;
+  }, [current?.audioUrl]);
+
+  const play = useCallback(() => {
+    audioRef.current?.play().catch(e => console.error("Playback error", e));
+  }, []);
+
+  const pause = useCallback(() => audioRef.current?.pause(), []);
+
+  const toggle = () => (isPlaying ? pause() : play());
+
+  // Switches to `next` and plays its current material from the start
+  const goTo = (next: PlaylistState) => {
+    setState(next);
+    if (next.queue[next.order[next.position]] !== currentId) {
+      playOnLoadRef.current = true; // The load effect starts it
+      return;
+    }
+    if (audioRef.current) audioRef.current.currentTime = 0;
+    play();
+  };
+
+  const playAll = (ids: string[], startId?: string) => {
+    const playable = ids.filter(id => materials.find(m => m.id === id)?.audioUrl);
+    if (playable.length === 0) return;
+    const start = Math.max(0, startId ? playable.indexOf(startId) : 0);
+    const order = state.shuffle ? shuffled(range(playable.length), start) : range(playable.length);
+    goTo({ ...state, queue: playable, order, position: state.shuffle ? 0 : start });
+  };
+
+  const enqueue = (id: string) => {
+    if (state.queue.includes(id) || !materials.find(m => m.id === id)?.audioUrl) return;
+    setState(prev => ({ ...prev, queue: [...prev.queue, id], order: [...prev.order, prev.queue.length] }));
+  };
+
+  const remove = (id: string) => {
+    const index = state.queue.indexOf(id);
+    if (index === -1) return;
+    if (id === currentId) pause();
+    setState(prev => {
+      const removedAt = prev.order.indexOf(index);
+      const order = prev.order.filter(i => i !== index).map(i => (i > index ? i - 1 : i));
+      const position = removedAt < prev.position ? prev.position - 1 : prev.position;
+      return { ...prev, queue: prev.queue.filter(q => q !== id), order, position: Math.min(position, Math.max(0, order.length - 1)) };
+    });
+  };
+
+  const jumpTo = (id: string) => {
+    const position = state.order.indexOf(state.queue.indexOf(id));
+    if (position !== -1) goTo({ ...state, position });
+  };
+
+  // `auto` is set when a material ended by itself: that is when repeat-one applies
+  const next = (auto = false) => {
+    if (state.queue.length === 0) return;
+    if (auto && state.repeat === 'one') return goTo(state);
+    if (state.position + 1 < state.order.length) return goTo({ ...state, position: state.position + 1 });
+    if (state.repeat === 'off') {
+      if (auto) setState(prev => ({ ...prev, position: 0 }));
+      return;
+    }
+    // Repeat all: start over, in a new order when shuffling
+    goTo({ ...state, order: state.shuffle ? shuffled(range(state.queue.length)) : state.order, position: 0 });
+  };
+  advanceRef.current = () => next(true);
+
+  // Like most players: back to the start of the material first, to the previous one when already there
+  const previous = () => {
+    const audio = audioRef.current;
+    if (audio && audio.currentTime > 3) {
+      audio.currentTime = 0;
+      return;
+    }
+    goTo({ ...state, position: Math.max(0, state.position - 1) });
+  };
+
+  const seek = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const toggleShuffle = () => {
+    setState(prev => {
+      const playingIndex = prev.order[prev.position];
+      const order = prev.shuffle ? range(prev.queue.length) : shuffled(range(prev.queue.length), playingIndex);
+      return { ...prev, shuffle: !prev.shuffle, order, position: Math.max(0, order.indexOf(playingIndex)) };
+    });
+  };
+
+  const cycleRepeat = () => {
+    setState(prev => ({ ...prev, repeat: prev.repeat === 'off' ? 'all' : prev.repeat === 'all' ? 'one' : 'off' }));
+  };
+
+  const clear = () => {
+    pause();
+    setState(prev => ({ ...EMPTY, shuffle: prev.shuffle, repeat: prev.repeat }));
+  };
+
+  // Queued materials in playback order
+  const queue = state.order
+    .map(i => materials.find(m => m.id === state.queue[i]))
+    .filter((m): m is Material => !!m);
+
+  return {
+    current,
+    queue,
+    position: state.position,
+    shuffle: state.shuffle,
+    repeat: state.repeat,
+    isPlaying,
+    currentTime,
+    duration,
+    play,
+    pause,
+    toggle,
+    playAll,
+    enqueue,
+    remove,
+    jumpTo,
+    next: () => next(),
+    previous,
+    seek,
+    toggleShuffle,
+    cycleRepeat,
+    clear,
+  };
+};
+
+export type Playlist = ReturnType<typeof usePlaylist>;
@@ -0,0 +1,179 @@
+import { Segment, WordTiming } from "../types";
+import { AlignmentProviderId, AppSettings, DEFAULT_SETTINGS } from "../utils/settings";
+import { alignSentencesToSilence } from "../utils/audioUtils";
+import { splitIntoSentencesFallback } from "../utils/textUtils";
+import { alignAudioWithText, transcribeAudio } from "./geminiService";
+import { alignInChunks, transcribeInChunks, ProgressCallback } from "./chunkedAlignment";
+import { HttpStatusError, RetryCallback, isTransientError, withRetry } from "./requestRetry";
+
+export interface AlignmentRequest {
+  audioBlob: Blob;
+  text: string;
+  offsetSeconds: number; // Intro to skip (music, announcements); used by providers that can honour it
+  audioBuffer?: AudioBuffer; // Decoded audio, when the caller already has it
+  onProgress?: ProgressCallback; // Reports chunks completed for long recordings
+  onRetry?: RetryCallback; // Reports a request being retried after a transient failure
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionRequest {
+  audioBlob: Blob;
+  audioBuffer?: AudioBuffer;
+  onProgress?: ProgressCallback;
+  onRetry?: RetryCallback;
+  signal?: AbortSignal;
+}
+
+export interface AlignmentProvider {
+  id: AlignmentProviderId;
+  label: string;
+  // Resolves to null when the provider is unavailable or fails, so callers can fall back.
+  // Rejects when cancelled, or when a transient failure outlasted its retries.
+  align: (request: AlignmentRequest) => Promise<Segment[] | null>;
+  // Produces the text and its timings from audio alone; only providers with speech recognition have it
+  transcribe?: (request: TranscriptionRequest) => Promise<Segment[] | null>;
+}
+
+export const PROVIDER_LABELS: Record<AlignmentProviderId, string> = {
+  gemini: 'Gemini (Google AI)',
+  http: 'Self-hosted Server',
+  local: 'Offline (Pause Detection)',
+};
+
+// --- Gemini ---
+
+export const createGeminiProvider = (model: string): AlignmentProvider => ({
+  id: 'gemini',
+  label: PROVIDER_LABELS.gemini,
+  // Long recordings are sent as overlapping windows; a single request fails or times out on lectures
+  align: ({ audioBlob, text, audioBuffer, onProgress, onRetry, signal }) =>
+    alignInChunks(audioBlob, text, (chunk, chunkText) => alignAudioWithText(chunk, chunkText, model, signal), { audioBuffer, onProgress, onRetry, signal }),
+  transcribe: ({ audioBlob, audioBuffer, onProgress, onRetry, signal }) =>
+    transcribeInChunks(audioBlob, chunk => transcribeAudio(chunk, model, signal), { audioBuffer, onProgress, onRetry, signal }),
+});
+
+// --- Self-hosted HTTP aligner ---
+//
+// POSTs multipart/form-data to the configured endpoint:
+//   audio      the audio file
+//   text       the full transcript
+//   sentences  JSON array of sentences (for aligners that need pre-split fragments, e.g. aeneas)
+//   offset     intro offset in seconds
+//
+// For transcription (e.g. a whisper server) only `audio` is sent, with task=transcribe.
+//
+// Accepted responses:
+//   { "segments": [{ "text", "startTime", "endTime", "speaker"?, "words"?: [{ "text", "startTime", "endTime" }] }] }
+//   { "fragments": [{ "begin": "0.000", "end": "2.480", "lines": ["..."] }] }   (aeneas sync map)
+
+const HTTP_TIMEOUT_MS = 10 * 60 * 1000;
+
+const toSeconds = (value: unknown): number => (typeof value === 'string' ? parseFloat(value) : (value as number));
+
+const parseAlignerResponse = (json: any): Segment[] | null => {
+  const stamp = Date.now();
+
+  if (Array.isArray(json?.segments)) {
+    return json.segments.map((s: any, i: number) => ({
+      id: `srv-${stamp}-${i}`,
+      text: String(s.text ?? '').trim(),
+      startTime: toSeconds(s.startTime ?? s.start),
+      endTime: toSeconds(s.endTime ?? s.end),
+      words: Array.isArray(s.words)
+        ? s.words.map((w: any): WordTiming => ({
+            text: String(w.text ?? w.word ?? '').trim(),
+            startTime: toSeconds(w.startTime ?? w.start),
+            endTime: toSeconds(w.endTime ?? w.end),
+          }))
+        : undefined,
+      speaker: s.speaker ? String(s.speaker) : undefined,
+    }));
+  }
+
+  if (Array.isArray(json?.fragments)) {
+    return json.fragments
+      .map((f: any, i: number) => ({
+        id: `srv-${stamp}-${i}`,
+        text: (Array.isArray(f.lines) ? f.lines.join(' ') : String(f.text ?? '')).trim(),
+        startTime: toSeconds(f.begin),
+        endTime: toSeconds(f.end),
+      }))
+      .filter((s: Segment) => s.text.length > 0);
+  }
+
+  return null;
+};
+
+const postToAligner = async (
+  endpoint: string,
+  token: string,
+  fields: Record<string, string>,
+  audioBlob: Blob,
+  signal?: AbortSignal
+): Promise<Segment[] | null> => {
+  if (!endpoint) {
+    console.warn("Self-hosted aligner endpoint is not configured.");
+    return null;
+  }
+
+  try {
+    const form = new FormData();
+    form.append('audio', audioBlob, (audioBlob as File).name || 'audio');
+    Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      body: form,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(HTTP_TIMEOUT_MS)]) : AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new HttpStatusError(response.status, `Aligner responded with ${response.status} ${response.statusText}`);
+    }
+
+    const segments = parseAlignerResponse(await response.json());
+    const valid = segments?.filter(s => s.text && Number.isFinite(s.startTime) && Number.isFinite(s.endTime));
+    return valid && valid.length > 0 ? valid : null;
+  } catch (error) {
+    if (signal?.aborted || isTransientError(error)) throw error;
+    console.error("Self-hosted aligner request failed:", error);
+    return null;
+  }
+};
+
+export const createHttpProvider = (endpoint: string, token: string): AlignmentProvider => ({
+  id: 'http',
+  label: PROVIDER_LABELS.http,
+  align: ({ audioBlob, text, offsetSeconds, onRetry, signal }) =>
+    withRetry(() => postToAligner(endpoint, token, {
+      text,
+      sentences: JSON.stringify(splitIntoSentencesFallback(text)),
+      offset: offsetSeconds.toString(),
+    }, audioBlob, signal), signal, onRetry),
+  transcribe: ({ audioBlob, onRetry, signal }) =>
+    withRetry(() => postToAligner(endpoint, token, { task: 'transcribe' }, audioBlob, signal), signal, onRetry),
+});
+
+// --- Offline ---
+
+export const createLocalProvider = (): AlignmentProvider => ({
+  id: 'local',
+  label: PROVIDER_LABELS.local,
+  align: async ({ audioBlob, text, offsetSeconds, audioBuffer, signal }) => {
+    signal?.throwIfAborted();
+    const sentences = splitIntoSentencesFallback(text);
+    if (sentences.length === 0) return null;
+    return alignSentencesToSilence(audioBuffer ?? audioBlob, sentences, offsetSeconds);
+  },
+});
+
+export const getAlignmentProvider = (settings: AppSettings): AlignmentProvider => {
+  switch (settings.alignmentProvider) {
+    case 'http':
+      return createHttpProvider(settings.httpEndpoint, settings.httpToken);
+    case 'local':
+      return createLocalProvider();
+    default:
+      return createGeminiProvider(settings.geminiModel || DEFAULT_SETTINGS.geminiModel);
+  }
+};
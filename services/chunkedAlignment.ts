@@ -0,0 +1,174 @@
+import { Segment } from "../types";
+import { decodeAudioBlob, encodeWavWindow } from "../utils/audioUtils";
+import { diffSequences, normalizeWord } from "../utils/textDiff";
+import { tokenizeWords } from "../utils/wordTimings";
+import { RetryCallback, withRetry } from "./requestRetry";
+
+// Aligns one window of audio against a slice of the transcript. Times are relative to the window.
+export type WindowAligner = (audioBlob: Blob, text: string) => Promise<Segment[] | null>;
+
+export type ProgressCallback = (completed: number, total: number) => void;
+
+export interface ChunkOptions {
+  audioBuffer?: AudioBuffer; // Decoded audio, when the caller already has it
+  onProgress?: ProgressCallback;
+  onRetry?: RetryCallback;
+  signal?: AbortSignal; // Stops between windows; the aligner should also pass it to its requests
+}
+
+// Recordings up to this length are sent in one request, as before
+const SINGLE_REQUEST_SECONDS = 8 * 60;
+const WINDOW_SECONDS = 4 * 60;
+const OVERLAP_SECONDS = 20;
+// Send a bit more transcript than the window probably covers; the aligner stops where the audio does
+const TEXT_SLACK = 1.3;
+const SEAM_TOLERANCE = 0.25;
+
+const sameText = (a: string, b: string) =>
+  tokenizeWords(a).map(normalizeWord).join(' ') === tokenizeWords(b).map(normalizeWord).join(' ');
+
+// Index (exclusive) in `chunkWords` just past the last word the kept segments cover.
+// Diffing instead of counting keeps the cursor right when the aligner drops or rewords a word.
+const findTranscriptCursor = (kept: Segment[], chunkWords: string[]): number => {
+  const keptWords = kept.flatMap(s => tokenizeWords(s.text));
+  const ops = diffSequences(keptWords, chunkWords, (x, y) => normalizeWord(x) === normalizeWord(y), 500);
+  if (!ops) return Math.min(chunkWords.length, keptWords.length);
+
+  let cursor = 0;
+  for (const op of ops) {
+    if (op.type === 'equal') cursor = op.bIndex + 1;
+  }
+  return cursor;
+};
+
+interface WindowRequest {
+  chunkBlob: Blob;
+  windowStart: number;
+  windowEnd: number;
+  isLastWindow: boolean;
+}
+
+// Splits long audio into overlapping windows and walks through them in order.
+// Each window keeps only the segments that finish before the overlap starts; the next window begins
+// where the last kept segment ended, so every seam is processed twice and kept once.
+// `requestWindow` returns segments with times relative to the window; `onKept` sees each accepted batch.
+// A window that fails transiently is retried on its own, so one dropped request does not restart the walk.
+const walkWindows = async (
+  buffer: AudioBuffer,
+  requestWindow: (request: WindowRequest) => Promise<Segment[] | null>,
+  onKept: (kept: Segment[]) => void,
+  isDone: () => boolean,
+  { onProgress, onRetry, signal }: ChunkOptions
+): Promise<Segment[] | null> => {
+  const duration = buffer.duration;
+  const stride = WINDOW_SECONDS - OVERLAP_SECONDS;
+  const result: Segment[] = [];
+  let windowStart = 0;
+  let completed = 0;
+
+  while (!isDone() && windowStart < duration - SEAM_TOLERANCE) {
+    signal?.throwIfAborted();
+    const windowEnd = Math.min(duration, windowStart + WINDOW_SECONDS);
+    const isLastWindow = windowEnd >= duration;
+    const total = completed + Math.max(1, Math.ceil((duration - windowStart - OVERLAP_SECONDS) / stride));
+    onProgress?.(completed, total);
+
+    const chunkBlob = await encodeWavWindow(buffer, windowStart, windowEnd);
+    const segments = await withRetry(() => requestWindow({ chunkBlob, windowStart, windowEnd, isLastWindow }), signal, onRetry);
+    if (!segments) return null;
+
+    const shifted = segments
+      .map(s => ({
+        ...s,
+        startTime: s.startTime + windowStart,
+        endTime: s.endTime + windowStart,
+        words: s.words?.map(w => ({ ...w, startTime: w.startTime + windowStart, endTime: w.endTime + windowStart })),
+      }))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    // De-duplicate at the seam: drop anything that starts before the previous window's last segment
+    // ended, or repeats its text
+    const last = result[result.length - 1];
+    const fresh = shifted.filter(s =>
+      !last || (s.startTime >= last.endTime - SEAM_TOLERANCE && !sameText(s.text, last.text))
+    );
+
+    // Segments reaching into the overlap are redone by the next window with more context
+    const seam = windowEnd - OVERLAP_SECONDS;
+    let kept = isLastWindow ? fresh : fresh.filter(s => s.endTime <= seam);
+    if (kept.length === 0 && fresh.length > 0) kept = [fresh[0]]; // A single very long segment: accept it to keep moving
+    if (kept.length === 0) {
+      if (isLastWindow) break;
+      windowStart += stride; // Nothing spoken here (music, silence)
+      completed++;
+      continue;
+    }
+
+    result.push(...kept);
+    onKept(kept);
+    windowStart = Math.max(windowStart + 1, kept[kept.length - 1].endTime);
+    completed++;
+  }
+
+  onProgress?.(completed, completed);
+
+  // Re-number ids (keeping the provider prefix): windows reuse the same index range
+  const stamp = Date.now();
+  return result.length > 0 ? result.map((s, i) => ({ ...s, id: `${s.id.split('-')[0]}-${stamp}-${i}` })) : null;
+};
+
+// Aligns long audio window by window, walking through the transcript as it goes
+export const alignInChunks = async (
+  audioBlob: Blob,
+  text: string,
+  alignWindow: WindowAligner,
+  options: ChunkOptions = {}
+): Promise<Segment[] | null> => {
+  const { audioBuffer, onProgress, onRetry, signal } = options;
+  const buffer = audioBuffer ?? await decodeAudioBlob(audioBlob);
+
+  if (buffer.duration <= SINGLE_REQUEST_SECONDS) {
+    onProgress?.(0, 1);
+    const segments = await withRetry(() => alignWindow(audioBlob, text), signal, onRetry);
+    onProgress?.(1, 1);
+    return segments;
+  }
+
+  const words = tokenizeWords(text);
+  let wordCursor = 0;
+  let chunkWords: string[] = [];
+
+  return walkWindows(
+    buffer,
+    ({ chunkBlob, windowStart, windowEnd, isLastWindow }) => {
+      // Estimate how much of the remaining transcript this window covers
+      const remainingWords = words.length - wordCursor;
+      const share = (windowEnd - windowStart) / (buffer.duration - windowStart);
+      const wordCount = isLastWindow ? remainingWords : Math.min(remainingWords, Math.ceil(remainingWords * share * TEXT_SLACK) + 10);
+      chunkWords = words.slice(wordCursor, wordCursor + wordCount);
+      return alignWindow(chunkBlob, chunkWords.join(' '));
+    },
+    kept => { wordCursor += findTranscriptCursor(kept, chunkWords); },
+    () => wordCursor >= words.length,
+    options
+  );
+};
+
+// Transcribes long audio window by window; there is no transcript to walk, only the audio
+export const transcribeInChunks = async (
+  audioBlob: Blob,
+  transcribeWindow: (audioBlob: Blob) => Promise<Segment[] | null>,
+  options: ChunkOptions = {}
+): Promise<Segment[] | null> => {
+  const { audioBuffer, onProgress, onRetry, signal } = options;
+  const buffer = audioBuffer ?? await decodeAudioBlob(audioBlob);
+
+  if (buffer.duration <= SINGLE_REQUEST_SECONDS) {
+    onProgress?.(0, 1);
+    const segments = await withRetry(() => transcribeWindow(audioBlob), signal, onRetry);
+    onProgress?.(1, 1);
+    return segments;
+  }
+
+  return walkWindows(buffer, ({ chunkBlob }) => transcribeWindow(chunkBlob), () => {}, () => false, options);
+};
@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { Material, Segment } from "../types";
+import { DEFAULT_SETTINGS } from "../utils/settings";
+import { isTransientError } from "./requestRetry";
 
 // Helper to safely get the AI client
 const getGenAI = () => {
@@ -25,14 +27,96 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-export const alignAudioWithText = async (audioBlob: Blob, fullText: string): Promise<Segment[] | null> => {
-  try {
-    const ai = getGenAI();
-    if (!ai) return null;
+// Shared response shape: timed segments, each with optional per-word timings
+const SEGMENTS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          startTime: { type: Type.NUMBER },
+          endTime: { type: Type.NUMBER },
+          speaker: { type: Type.STRING },
+          words: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                startTime: { type: Type.NUMBER },
+                endTime: { type: Type.NUMBER }
+              },
+              required: ["text", "startTime", "endTime"]
+            }
+          }
+        },
+        required: ["text", "startTime", "endTime"]
+      }
+    }
+  }
+};
+
+// Sends the audio with a prompt and parses the timed segments out of the JSON reply
+const requestTimedSegments = async (audioBlob: Blob, prompt: string, model: string, signal?: AbortSignal): Promise<Segment[] | null> => {
+  const ai = getGenAI();
+  if (!ai) return null;
 
-    const base64Audio = await blobToBase64(audioBlob);
-    const model = "gemini-2.5-flash"; // Supports multimodal input
+  const base64Audio = await blobToBase64(audioBlob);
+  // Model must support multimodal (audio) input
 
+  const response = await ai.models.generateContent({
+    model: model,
+    contents: {
+      parts: [
+        {
+          inlineData: {
+            mimeType: audioBlob.type || "audio/mp3",
+            data: base64Audio
+          }
+        },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: SEGMENTS_RESPONSE_SCHEMA,
+      abortSignal: signal
+    }
+  });
+
+  const json = JSON.parse(response.text || "{}");
+  if (json.segments && Array.isArray(json.segments) && json.segments.length > 0) {
+     return json.segments.map((s: any, i: number) => {
+       // Fix: Shift start time back by 0.6s to capture the attack of the first word.
+       // AI VAD can be too tight.
+       const PADDING = 0.6;
+       const adjustedStart = Math.max(0, s.startTime - PADDING);
+       
+       // Word times are kept as returned: the padding only protects segment playback
+       const words = Array.isArray(s.words)
+         ? s.words.map((w: any) => ({ text: w.text, startTime: w.startTime, endTime: w.endTime }))
+         : undefined;
+
+       return {
+         id: `ai-${Date.now()}-${i}`,
+         text: s.text,
+         startTime: adjustedStart,
+         endTime: s.endTime,
+         words,
+         speaker: typeof s.speaker === 'string' && s.speaker.trim() ? s.speaker.trim() : undefined
+       };
+     });
+  }
+  
+  return null;
+};
+
+// Resolves to null when alignment fails; rethrows cancellation and failures worth retrying
+export const alignAudioWithText = async (audioBlob: Blob, fullText: string, model: string = DEFAULT_SETTINGS.geminiModel, signal?: AbortSignal): Promise<Segment[] | null> => {
+  try {
     const prompt = `
       I have an audio file and a transcript.
       Task: Align the provided transcript to the audio with high precision for a listening practice app.
@@ -43,6 +127,8 @@ export const alignAudioWithText = async (audioBlob: Blob, fullText: string): Pro
       3. CRITICAL: Merge short interjections (e.g., "Right", "Okay", "Yeah", "Me too", "Uh-huh") into the preceding or succeeding sentence. Do not create isolated segments for words less than 1 second unless they are surrounded by long silence.
       4. Crucial: Do not change, add, or remove any words. The concatenated text of all segments must match the provided transcript exactly.
       5. Provide the start and end time for each segment in seconds.
+      6. For each segment, also list every word (split on whitespace, punctuation attached) with its own start and end time in seconds.
+      7. If more than one person speaks, never let a segment cross a change of speaker, and set "speaker" to "A", "B", ... in order of first appearance.
       
       Transcript:
       "${fullText}"
@@ -50,62 +136,37 @@ export const alignAudioWithText = async (audioBlob: Blob, fullText: string): Pro
       Return a JSON object with a "segments" array.
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: audioBlob.type || "audio/mp3",
-              data: base64Audio
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            segments: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING },
-                  startTime: { type: Type.NUMBER },
-                  endTime: { type: Type.NUMBER }
-                },
-                required: ["text", "startTime", "endTime"]
-              }
-            }
-          }
-        }
-      }
-    });
+    return await requestTimedSegments(audioBlob, prompt, model, signal);
 
-    const json = JSON.parse(response.text || "{}");
-    if (json.segments && Array.isArray(json.segments) && json.segments.length > 0) {
-       return json.segments.map((s: any, i: number) => {
-         // Fix: Shift start time back by 0.6s to capture the attack of the first word.
-         // AI VAD can be too tight.
-         const PADDING = 0.6;
-         const adjustedStart = Math.max(0, s.startTime - PADDING);
-         
-         return {
-           id: `ai-${Date.now()}-${i}`,
-           text: s.text,
-           startTime: adjustedStart,
-           endTime: s.endTime
-         };
-       });
-    }
-    
+  } catch (error) {
+    if (signal?.aborted || isTransientError(error)) throw error;
+    console.error("AI Alignment failed:", error);
     return null;
+  }
+};
+
+export const transcribeAudio = async (audioBlob: Blob, model: string = DEFAULT_SETTINGS.geminiModel, signal?: AbortSignal): Promise<Segment[] | null> => {
+  try {
+    const prompt = `
+      Task: Transcribe this audio verbatim for a listening practice app, with timings.
+      
+      Instructions:
+      1. Write down exactly what is said, in the language spoken, with normal punctuation and capitalisation.
+      2. Keep fillers and repetitions that are clearly audible; do not summarise or correct the speaker.
+      3. Split the transcript into natural sentences or logical phrases based on the speaker's actual pauses and intonation.
+      4. CRITICAL: Merge short interjections (e.g., "Right", "Okay", "Yeah", "Me too", "Uh-huh") into the preceding or succeeding sentence.
+      5. Provide the start and end time for each segment in seconds.
+      6. For each segment, also list every word (split on whitespace, punctuation attached) with its own start and end time in seconds.
+      7. If more than one person speaks, never let a segment cross a change of speaker, and set "speaker" to "A", "B", ... in order of first appearance.
+      
+      Return a JSON object with a "segments" array.
+    `;
+
+    return await requestTimedSegments(audioBlob, prompt, model, signal);
 
   } catch (error) {
-    console.error("AI Alignment failed:", error);
+    if (signal?.aborted || isTransientError(error)) throw error;
+    console.error("AI Transcription failed:", error);
     return null;
   }
 };
@@ -121,7 +182,7 @@ export const getWordDefinition = async (word: string, context: string): Promise<
     if (!ai) return "API Key missing";
 
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model: DEFAULT_SETTINGS.geminiModel,
       contents: `Define the word "${word}" briefly (under 30 words) as it is used in this context: "${context}". Return just the definition.`,
     });
     return response.text || "Definition not found.";
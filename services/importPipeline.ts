@@ -0,0 +1,174 @@
+import { Material, Segment } from "../types";
+import { AppSettings } from "../utils/settings";
+import { decodeAudioBlob } from "../utils/audioUtils";
+import { validateAlignment, ValidationResult } from "../utils/alignmentValidation";
+import { splitIntoSentencesFallback } from "../utils/textUtils";
+import { SubtitleFormat, parseSubtitles, cuesToSegments } from "../utils/subtitles";
+import { parseSpeakerTurns, turnsToText, removeSpeakerLabels, assignSpeakers } from "../utils/speakers";
+import { getAlignmentProvider, createLocalProvider } from "./alignmentProviders";
+import { isTransientError } from "./requestRetry";
+
+export type ImportStage = 'decode' | 'align' | 'validate' | 'save';
+
+// The audio itself, or a reader for audio that should stay unread until its job runs (batch zip entries)
+export type AudioSource = Blob | (() => Promise<Blob>);
+
+export const readAudio = (source: AudioSource): Promise<Blob> =>
+  typeof source === 'function' ? source() : Promise.resolve(source);
+
+// Everything the wizard collected; enough to run (or re-run) the import without the modal
+export interface ImportInput {
+  materialId: string;
+  title: string;
+  text: string;
+  audioBlob: AudioSource; // The audio to align against: the new upload, or the stored audio when editing
+  replacesAudio: boolean; // False when editing without a new upload: the stored blob stays as it is
+  offsetSeconds: number;
+  imageUrl: string;
+  subtitles?: { content: string; format: SubtitleFormat };
+  transcribedSegments?: Segment[];
+  settings: AppSettings;
+}
+
+export interface ImportReporter {
+  onStage: (stage: ImportStage, detail: string) => void;
+  onProgress: (fraction: number | null) => void; // Chunk progress while aligning long recordings
+}
+
+export type ImportOutcome =
+  | { kind: 'ready'; segments: Segment[]; duration: number }
+  | { kind: 'review'; result: ValidationResult; duration: number }; // Validation found problems too large to fix silently
+
+const loadDuration = (blob: Blob, signal: AbortSignal) =>
+  new Promise<number>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    const done = () => URL.revokeObjectURL(url);
+    audio.onloadedmetadata = () => { done(); resolve(audio.duration); };
+    audio.onerror = () => { done(); reject(new Error("Could not load audio metadata")); };
+    signal.addEventListener('abort', () => { done(); reject(signal.reason); }, { once: true });
+  });
+
+// Spreads sentences over the audio by character count: the last resort when nothing could align
+const alignLinearly = (sentences: string[], duration: number, offsetSeconds: number): Segment[] => {
+  const effectiveDuration = duration - offsetSeconds;
+  const totalChars = sentences.reduce((acc, s) => acc + s.length, 0);
+  let currentTime = offsetSeconds;
+
+  return sentences.map((s, i) => {
+    const segmentDuration = totalChars > 0 ? (s.length / totalChars) * effectiveDuration : 0;
+    const seg: Segment = {
+      id: `imp-${Date.now()}-${i}`,
+      text: s,
+      startTime: currentTime,
+      endTime: currentTime + segmentDuration
+    };
+    currentTime += segmentDuration;
+    return seg;
+  });
+};
+
+// Decode, align and validate. Saving is left to the caller, which owns storage.
+export const runImport = async (input: ImportInput, reporter: ImportReporter, signal: AbortSignal): Promise<ImportOutcome> => {
+  const { offsetSeconds } = input;
+  const provider = getAlignmentProvider(input.settings);
+
+  // Dialogues labelled "A: ... B: ..." are aligned without the labels; speakers are put back after validation
+  const turns = parseSpeakerTurns(input.text);
+  const text = turns ? turnsToText(turns) : input.text;
+
+  // --- DECODE: once; alignment, chunking and validation all work on the decoded audio ---
+  reporter.onStage('decode', "Loading audio...");
+  const audioBlob = await readAudio(input.audioBlob);
+  signal.throwIfAborted();
+  const audioBuffer = await decodeAudioBlob(audioBlob).catch(e => {
+    console.warn("Could not decode audio, using metadata duration", e);
+    return null;
+  });
+  signal.throwIfAborted();
+  const duration = audioBuffer ? audioBuffer.duration : await loadDuration(audioBlob, signal);
+
+  if (offsetSeconds >= duration) throw new Error("Offset cannot be longer than audio.");
+
+  // --- ALIGN ---
+  let segments: Segment[] | null = null;
+
+  if (input.subtitles) {
+    // Subtitle cues are already timed, no alignment needed
+    reporter.onStage('align', "Reading subtitles...");
+    const cues = parseSubtitles(input.subtitles.content, input.subtitles.format, duration);
+    segments = cuesToSegments(cues, duration);
+  } else if (input.transcribedSegments) {
+    // Already timed; validation below folds in any text edits
+    segments = input.transcribedSegments;
+  } else {
+    reporter.onStage('align', `Aligning with ${provider.label}...`);
+    segments = await provider.align({
+      audioBlob,
+      text,
+      offsetSeconds,
+      audioBuffer: audioBuffer ?? undefined,
+      signal,
+      onProgress: (completed, total) => {
+        if (total <= 1) return;
+        reporter.onProgress(completed / total);
+        reporter.onStage('align', `Aligning chunk ${Math.min(completed + 1, total)} of ${total}...`);
+      },
+      onRetry: (attempt, maxAttempts, delayMs) => {
+        reporter.onStage('align', `${provider.label} unreachable, retrying in ${Math.round(delayMs / 1000)}s (${attempt}/${maxAttempts - 1})...`);
+      }
+    }).catch(error => {
+      if (signal.aborted || !isTransientError(error)) throw error;
+      console.warn(`${provider.label} stayed unreachable after retrying.`, error);
+      return null;
+    });
+    reporter.onProgress(null);
+  }
+
+  // --- FALLBACK LOGIC ---
+  const sentences = splitIntoSentencesFallback(text);
+  if (!segments && sentences.length === 0) throw new Error("No segments found.");
+
+  // 1. Offline: fit sentences to the pauses in the recording
+  if (!segments && provider.id !== 'local') {
+    console.warn(`${provider.label} alignment failed or unavailable. Falling back to offline pause detection.`);
+    reporter.onStage('align', "Detecting pauses offline...");
+    segments = await createLocalProvider().align({ audioBlob, text, offsetSeconds, audioBuffer: audioBuffer ?? undefined, signal });
+  }
+
+  // 2. Last resort: spread sentences linearly by character count
+  if (!segments) {
+    console.warn("Offline alignment failed. Falling back to linear calculation.");
+    segments = alignLinearly(sentences, duration, offsetSeconds);
+  }
+  signal.throwIfAborted();
+  if (turns) segments = segments.map(s => ({ ...s, text: removeSpeakerLabels(s.text) }));
+
+  // --- VALIDATE: check wording, ordering and overlaps against the decoded audio ---
+  reporter.onStage('validate', "Validating alignment...");
+  const validated = validateAlignment(segments, text, duration);
+  const result = turns ? { ...validated, segments: assignSpeakers(validated.segments, turns) } : validated;
+
+  return result.needsReview
+    ? { kind: 'review', result, duration }
+    : { kind: 'ready', segments: result.segments, duration };
+};
+
+export const buildMaterial = (input: ImportInput, segments: Segment[], duration: number): Material => {
+  const minutes = Math.floor(duration / 60);
+  const seconds = Math.floor(duration % 60);
+
+  return {
+    id: input.materialId,
+    title: input.title,
+    description: input.text.slice(0, 150).replace(/\s+/g, ' ') + "...",
+    category: "Imported",
+    difficulty: "Medium",
+    duration: `${minutes}:${seconds.toString().padStart(2, '0')}`,
+    // Image Logic: Leave empty to trigger CSS Fallback in ArticleCard
+    // This ensures reliability in China/Netlify without blocked external requests.
+    imageUrl: input.imageUrl,
+    audioUrl: "", // Filled by App
+    segments
+  };
+};
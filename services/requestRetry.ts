@@ -0,0 +1,60 @@
+// Retrying requests to alignment services. Only failures that a second attempt can fix
+// (rate limits, overloaded servers, dropped connections) are retried; bad input and
+// unparseable replies are not, and cancellation always wins.
+
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+export type RetryCallback = (attempt: number, maxAttempts: number, delayMs: number) => void;
+
+const TRANSIENT_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2000;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isTransientError = (error: unknown): boolean => {
+  // Gemini's ApiError and our HttpStatusError both carry the HTTP status
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return TRANSIENT_STATUS.has(status);
+  // fetch rejects with a TypeError when the network is down ("Failed to fetch", "NetworkError...", "Load failed")
+  return error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `task`, retrying transient failures with exponential backoff (2s, 4s).
+// Rethrows the last error once attempts run out.
+export const withRetry = async <T>(task: () => Promise<T>, signal?: AbortSignal, onRetry?: RetryCallback): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || attempt >= MAX_ATTEMPTS || !isTransientError(error)) throw error;
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`Request failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying in ${delay / 1000}s`, error);
+      onRetry?.(attempt, MAX_ATTEMPTS, delay);
+      await wait(delay, signal);
+    }
+  }
+};
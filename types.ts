@@ -1,8 +1,24 @@
+export interface WordTiming {
+  text: string;
+  startTime: number; // in seconds
+  endTime: number; // in seconds
+}
+
 export interface Segment {
   id: string;
   text: string;
   startTime: number; // in seconds
   endTime: number; // in seconds
+  words?: WordTiming[]; // One entry per whitespace-separated word of `text`, when the aligner provides them
+  speaker?: string; // Dialogue label ("A", "Tom"); unset for monologues
+}
+
+// A named A–B stretch of audio saved for practice; may cover part of a segment or several
+export interface LoopRange {
+  id: string;
+  name: string;
+  startTime: number; // in seconds
+  endTime: number; // in seconds
 }
 
 export interface Material {
@@ -15,6 +31,8 @@ export interface Material {
   imageUrl: string;
   audioUrl: string; // In a real app, this would be a real URL. We will mock or use TTS.
   segments: Segment[];
+  loopRanges?: LoopRange[];
+  clozeWords?: Record<string, number[]>; // Teacher-chosen cloze gaps: word indexes by segment id
 }
 
 export interface UserState {
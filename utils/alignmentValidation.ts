@@ -0,0 +1,168 @@
+import { Segment } from '../types';
+import { DiffOp, diffSequences, normalizeWord } from './textDiff';
+import { tokenizeWords } from './wordTimings';
+
+export interface ValidationIssue {
+  severity: 'repaired' | 'major';
+  message: string;
+  segmentIndex?: number;
+}
+
+export interface TextDiffEntry {
+  type: 'equal' | 'missing' | 'extra'; // missing: in the transcript only, extra: in the aligner output only
+  text: string;
+}
+
+export interface ValidationResult {
+  segments: Segment[]; // Repaired segments, safe to save
+  issues: ValidationIssue[];
+  textDiff: TextDiffEntry[]; // Empty when the wording matches
+  needsReview: boolean; // True when problems were too large to fix silently
+}
+
+// A few words, or up to this share of the transcript, may differ before the user has to look at it
+const MAX_AUTO_TEXT_CHANGE = 0.05;
+const MAX_AUTO_TEXT_WORDS = 3;
+const MAX_AUTO_OVERLAP = 1.0; // seconds
+const DURATION_TOLERANCE = 0.5; // seconds past the end still treated as rounding
+const MIN_SEGMENT_LENGTH = 0.1;
+const MAX_DIFF_EDITS = 2000;
+
+interface TokenRef {
+  word: string;
+  segment: number;
+}
+
+// Rewrites segment texts with the transcript's own words: matched words keep their segment,
+// words the aligner dropped join the segment before them, words it invented are removed.
+const repairText = (segments: Segment[], transcript: string, issues: ValidationIssue[]): { segments: Segment[]; textDiff: TextDiffEntry[] } => {
+  const transcriptWords = tokenizeWords(transcript);
+  const alignedWords: TokenRef[] = segments.flatMap((seg, i) => tokenizeWords(seg.text).map(word => ({ word, segment: i })));
+
+  const ops: DiffOp[] | null = diffSequences(
+    alignedWords,
+    transcriptWords.map(word => ({ word, segment: -1 })),
+    (x, y) => normalizeWord(x.word) === normalizeWord(y.word),
+    MAX_DIFF_EDITS
+  );
+
+  if (!ops) {
+    issues.push({ severity: 'major', message: 'The aligned text is very different from the transcript.' });
+    return { segments, textDiff: [] };
+  }
+
+  const changed = ops.filter(op => op.type !== 'equal').length;
+  if (changed === 0) return { segments, textDiff: [] };
+
+  const assigned: string[][] = segments.map(() => []);
+  const textDiff: TextDiffEntry[] = [];
+  let lastSegment = 0;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      lastSegment = alignedWords[op.aIndex].segment;
+      assigned[lastSegment].push(transcriptWords[op.bIndex]);
+      textDiff.push({ type: 'equal', text: transcriptWords[op.bIndex] });
+    } else if (op.type === 'insert') {
+      assigned[lastSegment].push(transcriptWords[op.bIndex]);
+      textDiff.push({ type: 'missing', text: transcriptWords[op.bIndex] });
+    } else {
+      textDiff.push({ type: 'extra', text: alignedWords[op.aIndex].word });
+    }
+  }
+
+  const repaired: Segment[] = [];
+  segments.forEach((seg, i) => {
+    const text = assigned[i].join(' ');
+    if (!text) {
+      // Nothing left in this segment: let the previous one cover its time
+      if (repaired.length > 0) repaired[repaired.length - 1] = { ...repaired[repaired.length - 1], endTime: Math.max(repaired[repaired.length - 1].endTime, seg.endTime) };
+      return;
+    }
+    // Word timings no longer line up once the wording changes
+    repaired.push(text === seg.text ? seg : { ...seg, text, words: undefined });
+  });
+
+  const changeRatio = changed / Math.max(1, transcriptWords.length);
+  issues.push({
+    severity: changed > MAX_AUTO_TEXT_WORDS && changeRatio > MAX_AUTO_TEXT_CHANGE ? 'major' : 'repaired',
+    message: `Restored transcript wording (${changed} word${changed === 1 ? '' : 's'} differed).`,
+  });
+  return { segments: repaired, textDiff };
+};
+
+// Enforces 0 <= start < end <= duration, increasing starts and no overlaps
+const repairTimings = (segments: Segment[], duration: number, issues: ValidationIssue[]): Segment[] => {
+  const repaired = segments.map(seg => ({ ...seg }));
+
+  repaired.forEach((seg, i) => {
+    if (!Number.isFinite(seg.startTime) || !Number.isFinite(seg.endTime)) {
+      issues.push({ severity: 'major', message: 'Segment has no valid time.', segmentIndex: i });
+      seg.startTime = i > 0 ? repaired[i - 1].endTime : 0;
+      seg.endTime = seg.startTime + MIN_SEGMENT_LENGTH;
+    }
+    if (seg.startTime < 0) {
+      seg.startTime = 0;
+    }
+    if (seg.startTime >= duration) {
+      issues.push({ severity: 'major', message: `Starts after the audio ends (${seg.startTime.toFixed(1)}s > ${duration.toFixed(1)}s).`, segmentIndex: i });
+      seg.startTime = Math.max(0, duration - MIN_SEGMENT_LENGTH);
+    }
+    if (seg.endTime > duration) {
+      if (seg.endTime > duration + DURATION_TOLERANCE) {
+        issues.push({ severity: 'repaired', message: `End clamped to the audio length (${seg.endTime.toFixed(1)}s → ${duration.toFixed(1)}s).`, segmentIndex: i });
+      }
+      seg.endTime = duration;
+    }
+
+    const prev = repaired[i - 1];
+    if (prev) {
+      if (seg.startTime < prev.startTime) {
+        issues.push({ severity: 'major', message: 'Starts before the previous segment (out of order).', segmentIndex: i });
+        seg.startTime = prev.endTime;
+      } else if (seg.startTime < prev.endTime) {
+        const overlap = prev.endTime - seg.startTime;
+        issues.push({
+          severity: overlap > MAX_AUTO_OVERLAP ? 'major' : 'repaired',
+          message: `Overlapped the previous segment by ${overlap.toFixed(2)}s.`,
+          segmentIndex: i,
+        });
+        // Split the overlap down the middle
+        const boundary = Math.max(prev.startTime + MIN_SEGMENT_LENGTH, seg.startTime + overlap / 2);
+        prev.endTime = boundary;
+        seg.startTime = boundary;
+      }
+    }
+
+    if (seg.endTime <= seg.startTime) {
+      issues.push({ severity: 'repaired', message: 'Ended before it started.', segmentIndex: i });
+      seg.endTime = Math.min(duration, seg.startTime + MIN_SEGMENT_LENGTH);
+    }
+
+    if (seg.words) {
+      seg.words = seg.words.map(w => ({
+        ...w,
+        startTime: Math.max(0, Math.min(duration, w.startTime)),
+        endTime: Math.max(0, Math.min(duration, w.endTime)),
+      }));
+    }
+  });
+
+  return repaired;
+};
+
+export const validateAlignment = (segments: Segment[], transcript: string, duration: number): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  if (segments.length === 0) {
+    return { segments, issues: [{ severity: 'major', message: 'The aligner returned no segments.' }], textDiff: [], needsReview: true };
+  }
+
+  const text = repairText(segments, transcript, issues);
+  const timed = repairTimings(text.segments, duration, issues);
+
+  return {
+    segments: timed,
+    issues,
+    textDiff: text.textDiff,
+    needsReview: issues.some(issue => issue.severity === 'major'),
+  };
+};
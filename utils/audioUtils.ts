@@ -1,3 +1,4 @@
+import { Segment } from "../types";
 
 export async function mergeAudioBlobs(blobs: Blob[]): Promise<Blob> {
   if (blobs.length === 0) {
@@ -91,3 +92,227 @@ function bufferToWav(abuffer: AudioBuffer): Blob {
     pos += 4;
   }
 }
+
+// Renders [fromTime, toTime] as a mono WAV at a speech-friendly sample rate.
+// 16 kHz keeps a few minutes of audio small enough for a single API request.
+export async function encodeWavWindow(buffer: AudioBuffer, fromTime: number, toTime: number, sampleRate = 16000): Promise<Blob> {
+  const length = Math.max(1, Math.ceil((toTime - fromTime) * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0, fromTime, toTime - fromTime);
+  const rendered = await offline.startRendering();
+  return bufferToWav(rendered);
+}
+
+// --- Offline Alignment (no network) ---
+
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const arrayBuffer = await blob.arrayBuffer();
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    // Browsers cap the number of live AudioContexts, so release it right away
+    if (audioContext.close) audioContext.close();
+  }
+}
+
+export interface Pause {
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+export interface PauseAnalysis {
+  pauses: Pause[];
+  speechStart: number;
+  speechEnd: number;
+}
+
+const FRAME_SECONDS = 0.02;
+const HOP_SECONDS = 0.01;
+const MIN_PAUSE_SECONDS = 0.15;
+
+// Energy-based VAD: frames quieter than an adaptive threshold are treated as silence.
+// The threshold sits between the noise floor and the speech level of this recording,
+// so it copes with both studio audio and classroom recordings with background hum.
+export function detectPauses(buffer: AudioBuffer, fromTime = 0): PauseAnalysis | null {
+  const sampleRate = buffer.sampleRate;
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) channels.push(buffer.getChannelData(c));
+
+  const firstFrame = Math.max(0, Math.floor((fromTime * sampleRate) / hopSize));
+  const frameCount = Math.max(0, Math.floor((buffer.length - frameSize) / hopSize) + 1);
+  if (frameCount <= firstFrame) return null;
+
+  // 1. Frame energies in dB (summed over channels, no mono copy for long files)
+  const energies = new Float32Array(frameCount - firstFrame);
+  for (let f = firstFrame; f < frameCount; f++) {
+    const from = f * hopSize;
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = from; i < from + frameSize; i++) sum += data[i] * data[i];
+    }
+    energies[f - firstFrame] = 10 * Math.log10(sum / (frameSize * channels.length) + 1e-10);
+  }
+
+  // 2. Adaptive threshold from percentiles
+  const sorted = Float32Array.from(energies).sort();
+  const floor = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[Math.floor(sorted.length * 0.95)];
+  if (peak - floor < 6) return null; // No usable contrast between speech and silence
+  const threshold = floor + (peak - floor) * 0.35;
+
+  // 3. Speech region and silence runs
+  const frameTime = (f: number) => fromTime + f * HOP_SECONDS;
+  let firstSpeech = -1;
+  let lastSpeech = -1;
+  for (let f = 0; f < energies.length; f++) {
+    if (energies[f] >= threshold) {
+      if (firstSpeech === -1) firstSpeech = f;
+      lastSpeech = f;
+    }
+  }
+  if (firstSpeech === -1) return null;
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  for (let f = firstSpeech; f <= lastSpeech; f++) {
+    const silent = energies[f] < threshold;
+    if (silent && runStart === -1) runStart = f;
+    if (!silent && runStart !== -1) {
+      const start = frameTime(runStart) + FRAME_SECONDS / 2;
+      const end = frameTime(f) + FRAME_SECONDS / 2;
+      if (end - start >= MIN_PAUSE_SECONDS) pauses.push({ start, end });
+      runStart = -1;
+    }
+  }
+
+  return {
+    pauses,
+    speechStart: frameTime(firstSpeech),
+    speechEnd: frameTime(lastSpeech) + FRAME_SECONDS,
+  };
+}
+
+// Chooses one pause per sentence boundary with dynamic programming.
+// Each sentence should take roughly its share of characters at the recording's speaking rate;
+// longer pauses are preferred as boundaries. Measuring every sentence against its own
+// expected length (rather than a running clock) is what keeps the result from drifting.
+export function fitSentencesToPauses(sentences: string[], analysis: PauseAnalysis): Segment[] | null {
+  const n = sentences.length;
+  if (n === 0) return null;
+
+  const { speechStart, speechEnd } = analysis;
+  // Node 0 and the last node are virtual pauses at the edges of the speech region
+  const nodes: Pause[] = [
+    { start: speechStart, end: speechStart },
+    ...analysis.pauses,
+    { start: speechEnd, end: speechEnd },
+  ];
+  const m = nodes.length;
+  if (m - 2 < n - 1) return null; // Not enough pauses for every boundary
+
+  const weights = sentences.map(s => Math.max(1, s.replace(/\s+/g, '').length));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const longestPauses = analysis.pauses.map(p => p.end - p.start).sort((a, b) => b - a).slice(0, n - 1);
+  const speakingTime = Math.max(1, speechEnd - speechStart - longestPauses.reduce((a, b) => a + b, 0));
+  const expected = weights.map(w => (w / totalWeight) * speakingTime);
+
+  const PAUSE_BONUS = 0.3;
+  const MAX_STRETCH = 4;
+  const cost = new Float64Array((n + 1) * m).fill(Infinity);
+  const back = new Int32Array((n + 1) * m).fill(-1);
+  cost[0] = 0;
+
+  for (let j = 0; j < n; j++) {
+    const isLast = j === n - 1;
+    for (let p = 0; p < m; p++) {
+      const base = cost[j * m + p];
+      if (base === Infinity) continue;
+      const from = nodes[p].end;
+      for (let q = isLast ? m - 1 : p + 1; q < (isLast ? m : m - 1); q++) {
+        const d = nodes[q].start - from;
+        if (d > expected[j] * MAX_STRETCH + 1) break;
+        if (d <= 0 || d < expected[j] / MAX_STRETCH) continue;
+        const ratio = Math.log(d / expected[j]);
+        const bonus = isLast ? 0 : PAUSE_BONUS * Math.log(1 + (nodes[q].end - nodes[q].start) / 0.1);
+        const c = base + ratio * ratio - bonus;
+        const idx = (j + 1) * m + q;
+        if (c < cost[idx]) {
+          cost[idx] = c;
+          back[idx] = p;
+        }
+      }
+    }
+  }
+
+  if (cost[n * m + m - 1] === Infinity) return null;
+
+  // Walk back to recover the chosen boundary nodes
+  const path: number[] = new Array(n + 1);
+  path[n] = m - 1;
+  for (let j = n; j > 0; j--) path[j - 1] = back[j * m + path[j]];
+
+  // Pad into the surrounding pauses so word attacks and tails aren't clipped,
+  // but never past the middle of a pause (segments must not overlap)
+  const PAD = 0.2;
+  const stamp = Date.now();
+  return sentences.map((text, i) => {
+    const before = nodes[path[i]];
+    const after = nodes[path[i + 1]];
+    const startTime = Math.max((before.start + before.end) / 2, before.end - PAD, 0);
+    const endTime = Math.min((after.start + after.end) / 2, after.start + PAD);
+    return {
+      id: `loc-${stamp}-${i}`,
+      text,
+      startTime: i === 0 ? Math.max(0, before.end - PAD) : startTime,
+      endTime: i === n - 1 ? after.start + PAD : endTime,
+    };
+  });
+}
+
+// Accepts an already decoded buffer so callers that decoded once don't pay for it again
+export async function alignSentencesToSilence(audio: Blob | AudioBuffer, sentences: string[], offsetSeconds = 0): Promise<Segment[] | null> {
+  try {
+    const buffer = audio instanceof Blob ? await decodeAudioBlob(audio) : audio;
+    const analysis = detectPauses(buffer, offsetSeconds);
+    if (!analysis) return null;
+    const segments = fitSentencesToPauses(sentences, analysis);
+    if (segments && segments.length > 0) {
+      segments[segments.length - 1].endTime = Math.min(segments[segments.length - 1].endTime, buffer.duration);
+    }
+    return segments;
+  } catch (error) {
+    console.error("Offline alignment failed:", error);
+    return null;
+  }
+}
+
+// Min/max peaks per pixel column for drawing a waveform of [fromTime, toTime]
+export function computeWaveformPeaks(buffer: AudioBuffer, fromTime: number, toTime: number, columns: number): { min: Float32Array; max: Float32Array } {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const data = buffer.getChannelData(0);
+  const samplesPerColumn = ((toTime - fromTime) * buffer.sampleRate) / columns;
+  // Long views are sampled sparsely; the shape stays the same and redraws stay cheap
+  const stride = Math.max(1, Math.floor(samplesPerColumn / 256));
+
+  for (let c = 0; c < columns; c++) {
+    const from = Math.floor(fromTime * buffer.sampleRate + c * samplesPerColumn);
+    const to = Math.min(data.length, Math.floor(from + samplesPerColumn));
+    let lo = 0;
+    let hi = 0;
+    for (let i = Math.max(0, from); i < to; i += stride) {
+      const v = data[i];
+      if (v < lo) lo = v;
+      if (v > hi) hi = v;
+    }
+    min[c] = lo;
+    max[c] = hi;
+  }
+  return { min, max };
+}
@@ -0,0 +1,180 @@
+import { readZipEntries } from './zipReader';
+import { SubtitleFormat, detectSubtitleFormat, parseSubtitles } from './subtitles';
+
+// A file picked for batch import. `path` is relative to the chosen folder or zip,
+// so lesson1.mp3 and lesson1.txt only pair up when they sit side by side.
+export interface BatchFile {
+  path: string;
+  read: () => Promise<Blob>; // Zip entries are only inflated when read
+}
+
+// One audio file with its transcript, checked and ready to queue. The transcript is read here;
+// the audio only when its import runs, so a large course is never held in memory at once.
+export interface BatchItem {
+  key: string;
+  title: string;
+  readAudio: () => Promise<Blob>;
+  audioName: string;
+  text: string;
+  subtitles?: { content: string; format: SubtitleFormat };
+}
+
+export interface BatchProblem {
+  path: string;
+  reason: string;
+}
+
+export interface BatchPlan {
+  items: BatchItem[];
+  problems: BatchProblem[];
+  ignored: number; // Files that are neither audio, transcripts nor zips
+}
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+};
+const SUBTITLE_EXTS = ['srt', 'vtt', 'lrc'];
+
+export const BATCH_ACCEPT = ['.zip', '.txt', ...SUBTITLE_EXTS.map(e => `.${e}`), ...Object.keys(AUDIO_TYPES).map(e => `.${e}`)].join(',');
+
+const splitPath = (path: string) => {
+  const name = path.split('/').pop() || path;
+  const dot = name.lastIndexOf('.');
+  return {
+    name,
+    ext: dot > 0 ? name.slice(dot + 1).toLowerCase() : '',
+    key: (dot > 0 ? path.slice(0, path.length - (name.length - dot)) : path).toLowerCase(),
+  };
+};
+
+// "Unit_03_At the Airport.mp3" -> "Unit 03 At the Airport"
+export const titleFromFilename = (name: string): string =>
+  name.replace(/\.[^.]+$/, '').replace(/_+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Junk that archivers and file managers add next to the real files
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Zips are unpacked in place; their entries get paths under the archive's own path
+const expandZips = async (files: BatchFile[], problems: BatchProblem[]): Promise<BatchFile[]> => {
+  const expanded: BatchFile[] = [];
+  for (const file of files) {
+    if (splitPath(file.path).ext !== 'zip') {
+      expanded.push(file);
+      continue;
+    }
+    try {
+      const entries = await readZipEntries(await file.read());
+      entries.forEach(entry => expanded.push({ path: `${file.path}/${entry.path}`, read: entry.read }));
+    } catch (error) {
+      problems.push({ path: file.path, reason: error instanceof Error ? error.message : 'Could not open the zip.' });
+    }
+  }
+  return expanded;
+};
+
+// Groups files by name, reads each transcript and reports what cannot become a session
+export const planBatch = async (files: BatchFile[]): Promise<BatchPlan> => {
+  const problems: BatchProblem[] = [];
+  const all = (await expandZips(files, problems)).filter(f => !isHidden(f.path));
+
+  const groups = new Map<string, { audio?: BatchFile; transcript?: BatchFile; subtitles?: BatchFile }>();
+  let ignored = 0;
+  for (const file of all) {
+    const { ext, key } = splitPath(file.path);
+    const group = groups.get(key) ?? {};
+    if (Object.hasOwn(AUDIO_TYPES, ext)) {
+      if (group.audio) {
+        problems.push({ path: file.path, reason: `Skipped: ${splitPath(group.audio.path).name} has the same name.` });
+        continue;
+      }
+      group.audio = file;
+    } else if (ext === 'txt') group.transcript = file;
+    else if (SUBTITLE_EXTS.includes(ext)) group.subtitles = file;
+    else { ignored++; continue; }
+    groups.set(key, group);
+  }
+
+  const items: BatchItem[] = [];
+  for (const [key, group] of groups) {
+    const source = group.subtitles ?? group.transcript; // Timed subtitles win over plain text
+    if (!group.audio) {
+      problems.push({ path: source!.path, reason: 'No audio file with the same name.' });
+      continue;
+    }
+    if (!source) {
+      problems.push({ path: group.audio.path, reason: 'No .txt or subtitle file with the same name.' });
+      continue;
+    }
+
+    const audioFile = group.audio;
+    const { name, ext } = splitPath(audioFile.path);
+    const readAudio = async () => {
+      const raw = await audioFile.read().catch(() => {
+        throw new Error(`Could not read ${audioFile.path}.`);
+      });
+      // Entries from a zip carry no type; the aligner needs one
+      return raw.type ? raw : new Blob([raw], { type: AUDIO_TYPES[ext] });
+    };
+
+    try {
+      const content = (await (await source.read()).text()).replace(/^\uFEFF/, '');
+
+      let text = content.trim();
+      let subtitles: BatchItem['subtitles'];
+      if (source === group.subtitles) {
+        const format = detectSubtitleFormat(source.path, content);
+        if (!format) throw new Error('Unrecognised subtitle format.');
+        text = parseSubtitles(content, format).map(c => c.text).join('\n');
+        subtitles = { content, format };
+      }
+      if (!text) throw new Error('The transcript is empty.');
+
+      items.push({ key, title: titleFromFilename(name), readAudio, audioName: name, text, subtitles });
+    } catch (error) {
+      problems.push({ path: source.path, reason: error instanceof Error ? error.message : 'Could not read the transcript.' });
+    }
+  }
+
+  items.sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+  return { items, problems, ignored };
+};
+
+// Walks folders dropped onto the page; plain files keep their own name as path
+export const filesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<BatchFile[]> => {
+  const readDirectory = (reader: FileSystemDirectoryReader) =>
+    new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+  const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+  const walk = async (entry: FileSystemEntry, prefix: string, out: BatchFile[]) => {
+    if (entry.isFile) {
+      const file = await readFile(entry as FileSystemFileEntry);
+      out.push({ path: prefix + entry.name, read: async () => file });
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns at most 100 entries per call
+      for (let batch = await readDirectory(reader); batch.length > 0; batch = await readDirectory(reader)) {
+        for (const child of batch) await walk(child, `${prefix}${entry.name}/`, out);
+      }
+    }
+  };
+
+  // Entries must be taken synchronously, before the first await invalidates the DataTransfer
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files: BatchFile[] = [];
+  for (const entry of entries) await walk(entry, '', files);
+  return files;
+};
+
+export const filesFromInput = (list: FileList): BatchFile[] =>
+  Array.from(list).map(file => ({ path: file.webkitRelativePath || file.name, read: async () => file }));
@@ -0,0 +1,154 @@
+import { stretchSpan } from './timeStretch';
+
+// A stretch of the recording to play, in media seconds
+export interface PlaybackPiece {
+  from: number;
+  to: number;
+  rate: number;
+  pauseAfter: number; // Seconds of silence before the next piece
+}
+
+// Returns the piece after `finished` (the `index`-th of the run), or null to end the run there
+export type NextPiece = (finished: PlaybackPiece, index: number) => PlaybackPiece | null;
+
+export interface PlaybackHandlers {
+  onPieceEnd?: (piece: PlaybackPiece, index: number) => void;
+  onFinish?: (last: PlaybackPiece) => void;
+}
+
+interface ScheduledNode {
+  piece: PlaybackPiece;
+  index: number;
+  from: number; // Media time this node starts at; long stretched pieces are split over several nodes
+  to: number;
+  startsAt: number; // AudioContext time
+  endsAt: number;
+  node: AudioBufferSourceNode;
+}
+
+const START_LATENCY = 0.03; // Lead time so the first node never starts in the past
+const STRETCH_CHUNK_SECONDS = 10; // Stretched audio is rendered in chunks of this much media time
+const STRETCH_CACHE_SIZE = 6;
+
+// Plays a decoded recording through Web Audio. Every start and stop is scheduled on the audio clock,
+// one node ahead of what is playing, so pieces end exactly on their boundaries and loops repeat on
+// time even in a background tab, where animation frames and timers are throttled.
+export class BufferPlayer {
+  readonly duration: number;
+  readonly context: AudioContext;
+  readonly buffer: AudioBuffer;
+  private readonly stretched = new Map<string, AudioBuffer>();
+  private scheduled: ScheduledNode[] = [];
+  private run = 0; // Bumped on every play/stop so events from an abandoned run are ignored
+  private position = 0;
+
+  constructor(buffer: AudioBuffer) {
+    this.buffer = buffer;
+    this.duration = buffer.duration;
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+
+  get paused(): boolean {
+    return this.scheduled.length === 0;
+  }
+
+  // Media time being heard; during a pause between pieces, where the next piece starts
+  get currentTime(): number {
+    if (this.paused) return this.position;
+    const now = this.context.currentTime;
+    const playing = this.scheduled.find(s => now >= s.startsAt && now < s.endsAt);
+    if (playing) return playing.from + (now - playing.startsAt) * playing.piece.rate;
+    const upcoming = this.scheduled.find(s => now < s.startsAt);
+    return upcoming ? upcoming.from : this.scheduled[this.scheduled.length - 1].to;
+  }
+
+  // Time from a node starting on the audio clock to the sound leaving the speakers
+  get outputLatency(): number {
+    return (this.context.outputLatency || 0) + (this.context.baseLatency || 0);
+  }
+
+  seek(time: number) {
+    this.stop();
+    this.position = Math.min(this.duration, Math.max(0, time));
+  }
+
+  // Resolves to the AudioContext time the first piece starts at, or null when stopped before it could
+  async play(first: PlaybackPiece, next: NextPiece, handlers: PlaybackHandlers = {}): Promise<number | null> {
+    this.stop();
+    const run = this.run;
+    if (this.context.state === 'suspended') await this.context.resume();
+    if (run !== this.run) return null;
+
+    const head = this.schedule(run, first, 0, first.from, this.context.currentTime + START_LATENCY, next, handlers);
+    this.scheduleAfter(run, head, next, handlers);
+    return head.startsAt;
+  }
+
+  stop() {
+    if (!this.paused) this.position = this.currentTime;
+    this.run++;
+    this.scheduled.forEach(s => {
+      s.node.onended = null;
+      try { s.node.stop(); } catch { /* never started */ }
+      s.node.disconnect();
+    });
+    this.scheduled = [];
+  }
+
+  close() {
+    this.stop();
+    this.context.close();
+  }
+
+  private schedule(run: number, piece: PlaybackPiece, index: number, from: number, at: number, next: NextPiece, handlers: PlaybackHandlers): ScheduledNode {
+    const to = piece.rate === 1 ? piece.to : Math.min(piece.to, from + STRETCH_CHUNK_SECONDS);
+    const node = this.context.createBufferSource();
+    node.connect(this.context.destination);
+
+    if (piece.rate === 1) {
+      node.buffer = this.buffer;
+      node.start(at, from, to - from);
+    } else {
+      node.buffer = this.getStretched(from, to, piece.rate);
+      node.start(at);
+    }
+
+    const entry: ScheduledNode = { piece, index, from, to, startsAt: at, endsAt: at + (to - from) / piece.rate, node };
+    node.onended = () => {
+      if (run !== this.run) return;
+      this.scheduled = this.scheduled.filter(s => s !== entry);
+      if (to >= piece.to) handlers.onPieceEnd?.(piece, index);
+      if (this.scheduled.length > 0) {
+        this.scheduleAfter(run, this.scheduled[this.scheduled.length - 1], next, handlers);
+      } else {
+        this.position = piece.to;
+        handlers.onFinish?.(piece);
+      }
+    };
+    this.scheduled.push(entry);
+    return entry;
+  }
+
+  // Queues whatever follows `tail`: the rest of a split piece, or the next piece after its pause
+  private scheduleAfter(run: number, tail: ScheduledNode, next: NextPiece, handlers: PlaybackHandlers) {
+    if (tail.to < tail.piece.to) {
+      this.schedule(run, tail.piece, tail.index, tail.to, tail.endsAt, next, handlers);
+      return;
+    }
+    const following = next(tail.piece, tail.index);
+    if (!following) return;
+    this.schedule(run, following, tail.index + 1, following.from, tail.endsAt + tail.piece.pauseAfter, next, handlers);
+  }
+
+  // Sentence loops ask for the same span again and again, so recent renders are kept
+  private getStretched(from: number, to: number, rate: number): AudioBuffer {
+    const key = `${from}:${to}:${rate}`;
+    let stretched = this.stretched.get(key);
+    if (!stretched) {
+      stretched = stretchSpan(this.context, this.buffer, from, to, rate);
+      if (this.stretched.size >= STRETCH_CACHE_SIZE) this.stretched.delete(this.stretched.keys().next().value!);
+      this.stretched.set(key, stretched);
+    }
+    return stretched;
+  }
+}
@@ -0,0 +1,73 @@
+import { Segment } from '../types';
+import { normalizeWord } from './textDiff';
+import { tokenizeWords } from './wordTimings';
+
+// --- Cloze (gap-fill) ---
+// Only some words are hidden; which ones depends on the strategy. Word indexes count the
+// whitespace-separated words of a segment's text, like word timings do.
+
+export type ClozeStrategy = 'nth' | 'content' | 'function' | 'teacher';
+
+export interface ClozeSettings {
+  strategy: ClozeStrategy;
+  every: number; // Used by 'nth': every how many words a gap falls
+}
+
+export const DEFAULT_CLOZE: ClozeSettings = { strategy: 'nth', every: 5 };
+
+// Grammar words: the ones reduced to weak forms in connected speech ("to" -> /tə/, "and" -> /n/)
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'some', 'any', 'no',
+  'i', 'me', 'my', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it', 'its', 'we', 'us', 'our', 'they', 'them', 'their',
+  'am', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'do', 'does', 'did', 'have', 'has', 'had',
+  'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must',
+  'and', 'but', 'or', 'nor', 'so', 'if', 'as', 'than', 'because', 'while',
+  'of', 'to', 'in', 'on', 'at', 'for', 'from', 'with', 'by', 'about', 'into', 'onto', 'over', 'up', 'out', 'off',
+  'there', 'not',
+]);
+
+const CLITICS = ["n't", "'s", "'re", "'ve", "'ll", "'m", "'d"];
+
+// Contractions count when they join grammar words ("don't", "we're"), not for possessives ("John's")
+const isFunctionWord = (normalized: string) => {
+  if (FUNCTION_WORDS.has(normalized)) return true;
+  const clitic = CLITICS.find(c => normalized.endsWith(c));
+  return !!clitic && (clitic === "n't" || FUNCTION_WORDS.has(normalized.slice(0, -clitic.length)));
+};
+
+// Word indexes to hide in each segment. `chosen` holds the teacher's picks by segment id.
+export const pickClozeGaps = (segments: Segment[], settings: ClozeSettings, chosen: Record<string, number[]> = {}): Set<number>[] => {
+  let counter = 0; // Every Nth word runs on across segments, so short sentences get gaps too
+  return segments.map(seg => {
+    if (settings.strategy === 'teacher') return new Set(chosen[seg.id] ?? []);
+    const gaps = new Set<number>();
+    tokenizeWords(seg.text).forEach((word, i) => {
+      const normalized = normalizeWord(word);
+      if (!normalized) return; // Dashes and other lone punctuation are never gaps
+      if (settings.strategy === 'nth') {
+        counter++;
+        if (counter % Math.max(2, settings.every) === 0) gaps.add(i);
+      } else if (isFunctionWord(normalized) === (settings.strategy === 'function')) {
+        gaps.add(i);
+      }
+    });
+    return gaps;
+  });
+};
+
+// "raining," -> ["", "raining", ","]: only the word itself goes into the gap
+export const splitPunctuation = (word: string): [string, string, string] => {
+  const match = word.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u);
+  return match ? [match[1], match[2], match[3]] : ['', word, ''];
+};
+
+// Case, punctuation and curly or left-out apostrophes do not count
+export const isClozeAnswer = (expected: string, typed: string): boolean => {
+  const bare = (w: string) => normalizeWord(w).replace(/'/g, '');
+  return bare(typed) !== '' && bare(typed) === bare(expected);
+};
+
+export interface ClozeAnswer {
+  value: string;
+  status: 'open' | 'correct' | 'wrong' | 'revealed'; // 'open' until checked, and again once edited
+}
@@ -0,0 +1,132 @@
+// Generative covers for sessions without an image: the same title always gets the same art
+
+export interface CoverShape {
+    type: 'circle' | 'rect';
+    cx: number; // Percentages of the cover
+    cy: number;
+    r: number; // Radius or width
+    h: number; // Height for rect
+    fill: string;
+    rotation: number;
+    opacity: number;
+}
+
+export interface CoverArt {
+    bg: string;
+    shapes: CoverShape[];
+    palette: string[];
+}
+
+// Deterministic Random Number Generator based on seed string
+const mulberry32 = (a: number) => {
+    return () => {
+      let t = a += 0x6D2B79F5;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+const strToSeed = (str: string) => {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        hash = str.charCodeAt(i) + ((hash << 5) - hash);
+    }
+    return Math.abs(hash);
+}
+
+// Designer Palettes
+const PALETTES = [
+    ['#E63946', '#F1FAEE', '#A8DADC', '#457B9D', '#1D3557'], // Americana
+    ['#264653', '#2A9D8F', '#E9C46A', '#F4A261', '#E76F51'], // Earth & Sun
+    ['#003049', '#D62828', '#F77F00', '#FCBF49', '#EAE2B7'], // Retro Poster
+    ['#2b2d42', '#8d99ae', '#edf2f4', '#ef233c', '#d90429'], // Modernist
+    ['#606c38', '#283618', '#fefae0', '#dda15e', '#bc6c25'], // Forest
+];
+
+export const generateCoverArt = (title: string): CoverArt => {
+    const seed = strToSeed(title);
+    const rand = mulberry32(seed);
+    
+    // Select Palette
+    const paletteIdx = Math.floor(rand() * PALETTES.length);
+    const palette = PALETTES[paletteIdx];
+    const bg = palette[0];
+    const colors = palette.slice(1);
+
+    // Generate Shapes
+    const shapes: CoverShape[] = [];
+    const numShapes = 3 + Math.floor(rand() * 5); // 3 to 7 shapes
+    
+    for(let i=0; i<numShapes; i++) {
+        shapes.push({
+            type: rand() > 0.5 ? 'circle' : 'rect',
+            cx: rand() * 100,
+            cy: rand() * 100,
+            r: 10 + rand() * 40, // radius or width
+            h: 10 + rand() * 40, // height for rect
+            fill: colors[Math.floor(rand() * colors.length)],
+            rotation: rand() * 360,
+            opacity: 0.6 + rand() * 0.4
+        });
+    }
+    
+    return { bg, shapes, palette };
+};
+
+// Paints the cover as a square PNG for places that need a raster image, such as lock-screen artwork.
+// Resolves to an object URL the caller revokes.
+export const renderCoverArt = (title: string, size = 512): Promise<string> => {
+    const art = generateCoverArt(title);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error("Canvas is not available"));
+    const unit = size / 100;
+
+    ctx.fillStyle = art.bg;
+    ctx.fillRect(0, 0, size, size);
+
+    art.shapes.forEach(s => {
+        ctx.save();
+        ctx.globalAlpha = s.opacity;
+        ctx.globalCompositeOperation = s.type === 'circle' ? 'multiply' : 'hard-light';
+        ctx.fillStyle = s.fill;
+        if (s.type === 'circle') {
+            ctx.beginPath();
+            ctx.arc(s.cx * unit, s.cy * unit, s.r * unit, 0, Math.PI * 2);
+            ctx.fill();
+        } else {
+            ctx.translate(s.cx * unit, s.cy * unit);
+            ctx.rotate((s.rotation * Math.PI) / 180);
+            ctx.fillRect(0, 0, s.r * unit, s.h * unit);
+        }
+        ctx.restore();
+    });
+
+    // Bottom shade and title, like the card's branding overlay
+    const shade = ctx.createLinearGradient(0, size * 0.5, 0, size);
+    shade.addColorStop(0, 'rgba(0,0,0,0)');
+    shade.addColorStop(1, 'rgba(0,0,0,0.6)');
+    ctx.fillStyle = shade;
+    ctx.fillRect(0, 0, size, size);
+
+    ctx.fillStyle = '#fff';
+    ctx.font = `bold ${Math.round(size / 12)}px Georgia, serif`;
+    ctx.textBaseline = 'bottom';
+    const words = title.split(/\s+/);
+    const lines: string[] = [];
+    words.forEach(word => {
+        const last = lines[lines.length - 1];
+        if (last && ctx.measureText(`${last} ${word}`).width < size * 0.84) lines[lines.length - 1] = `${last} ${word}`;
+        else lines.push(word);
+    });
+    const lineHeight = size / 10;
+    lines.slice(0, 3).forEach((line, i, shown) => {
+        ctx.fillText(line, size * 0.08, size * 0.92 - (shown.length - 1 - i) * lineHeight);
+    });
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(URL.createObjectURL(blob)) : reject(new Error("Could not render cover"))), 'image/png');
+    });
+};
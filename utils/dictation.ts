@@ -0,0 +1,173 @@
+import { diffSequences, normalizeWord } from './textDiff';
+import { tokenizeWords } from './wordTimings';
+
+// --- Dictation checking ---
+// Words are compared after normalizeWord (case and punctuation do not count) and after contractions
+// are expanded on both sides, so "don't" matches "do not" and "it's" matches "it is". A contraction
+// written without its apostrophe ("its", "isnt") is compared whole against the contraction instead.
+
+export interface DictationWord {
+  type: 'correct' | 'misspelled' | 'missing' | 'extra';
+  expected?: string; // The segment's word; unset for extra words
+  typed?: string; // What the learner wrote for it; unset for missing words
+}
+
+export interface DictationResult {
+  words: DictationWord[];
+  correct: number;
+  total: number; // Words in the segment
+  extra: number; // Typed words the segment does not have
+}
+
+// Comparable pieces of a word; `forms` are the spellings accepted for the piece
+interface Token {
+  forms: string[];
+  word: number; // Index of the word it came from
+}
+
+const IRREGULAR: Record<string, string[][]> = {
+  "won't": [['will'], ['not']],
+  "can't": [['can'], ['not']],
+  "cannot": [['can'], ['not']],
+  "shan't": [['shall'], ['not']],
+  "ain't": [['am', 'is', 'are'], ['not']],
+  "let's": [['let'], ['us']],
+};
+
+const SUFFIXES: [string, string[]][] = [
+  ["n't", ['not']],
+  ["'re", ['are']],
+  ["'ve", ['have']],
+  ["'ll", ['will']],
+  ["'m", ['am']],
+  ["'d", ['would', 'had']],
+];
+
+// "'s" is also the possessive, so it only expands after words that cannot own anything
+const IS_HAS_STEMS = ['it', 'he', 'she', 'that', 'what', 'there', 'here', 'who', 'where', 'how', 'when', 'why'];
+
+const expandWord = (normalized: string): string[][] => {
+  if (IRREGULAR[normalized]) return IRREGULAR[normalized];
+  for (const [suffix, forms] of SUFFIXES) {
+    if (normalized.endsWith(suffix) && normalized.length > suffix.length) {
+      return [[normalized.slice(0, -suffix.length)], forms];
+    }
+  }
+  if (normalized.endsWith("'s") && IS_HAS_STEMS.includes(normalized.slice(0, -2))) {
+    return [[normalized.slice(0, -2)], ['is', 'has']];
+  }
+  return [[normalized]];
+};
+
+// A left-out apostrophe is punctuation too: "johns" is taken for "john's"
+const bare = (form: string) => form.replace(/'/g, '');
+
+// Contractions stay whole when `other` has the same word as a single unexpanded one, so "its" can
+// match "it's" token for token
+const tokenize = (words: string[], other: string[]): Token[] => {
+  const single = new Set(other.map(normalizeWord).filter(n => n && expandWord(n).length === 1).map(bare));
+  return words.flatMap((w, word) => {
+    const normalized = normalizeWord(w);
+    if (!normalized) return [];
+    const parts = expandWord(normalized);
+    if (parts.length > 1 && single.has(bare(normalized))) return [{ forms: [normalized], word }];
+    return parts.map(forms => ({ forms, word }));
+  });
+};
+
+const sameToken = (a: Token, b: Token) => a.forms.some(f => b.forms.some(g => bare(f) === bare(g)));
+
+// Optimal string alignment distance: two swapped letters ("teh" for "the") are one edit, not two
+const editDistance = (a: string, b: string): number => {
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], before[j - 2] + 1);
+    }
+    before = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Close enough to be the same word spelt wrong rather than a different word: at most half the letters differ
+const isMisspelling = (expected: Token, typed: Token) =>
+  expected.forms.some(e => typed.forms.some(t => editDistance(e, t) <= Math.max(1, Math.floor(Math.max(e.length, t.length) / 2))));
+
+export const checkDictation = (expectedText: string, typedText: string): DictationResult => {
+  const expectedWords = tokenizeWords(expectedText);
+  const typedWords = tokenizeWords(typedText);
+  const expected = tokenize(expectedWords, typedWords);
+  const typed = tokenize(typedWords, expectedWords);
+  const ops = diffSequences(expected, typed, sameToken) ?? [];
+
+  // Typed words matched to each segment word, exactly or as a misspelling
+  const matched: Set<number>[] = expectedWords.map(() => new Set());
+  const exact: number[] = expectedWords.map(() => 0);
+  const usedTyped = new Set<number>();
+
+  // Within each run of edits, removed and added tokens are paired up in order when they look alike
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    let j = 0;
+    removed.forEach(e => {
+      const k = added.findIndex((t, idx) => idx >= j && isMisspelling(expected[e], typed[t]));
+      if (k === -1) return;
+      matched[expected[e].word].add(typed[added[k]].word);
+      usedTyped.add(typed[added[k]].word);
+      j = k + 1;
+    });
+    removed = [];
+    added = [];
+  };
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      flush();
+      matched[expected[op.aIndex].word].add(typed[op.bIndex].word);
+      usedTyped.add(typed[op.bIndex].word);
+      exact[expected[op.aIndex].word]++;
+    } else if (op.type === 'delete') {
+      removed.push(op.aIndex);
+    } else {
+      added.push(op.bIndex);
+    }
+  });
+  flush();
+
+  const tokenCount = expectedWords.map((_, w) => expected.filter(t => t.word === w).length);
+  const words: DictationWord[] = [];
+  const shown = new Set<string>();
+  ops.forEach(op => {
+    if (op.type === 'insert') {
+      const t = typed[op.bIndex].word;
+      if (usedTyped.has(t) || shown.has(`t${t}`)) return;
+      shown.add(`t${t}`);
+      words.push({ type: 'extra', typed: typedWords[t] });
+      return;
+    }
+    const w = expected[op.aIndex].word;
+    if (shown.has(`e${w}`)) return;
+    shown.add(`e${w}`);
+    const typedText = [...matched[w]].sort((a, b) => a - b).map(t => typedWords[t]).join(' ');
+    if (exact[w] === tokenCount[w]) words.push({ type: 'correct', expected: expectedWords[w], typed: typedText });
+    else if (matched[w].size === 0) words.push({ type: 'missing', expected: expectedWords[w] });
+    else words.push({ type: 'misspelled', expected: expectedWords[w], typed: typedText });
+  });
+
+  // Words that are only punctuation never reach the diff; they need not be typed
+  const scored = words.filter(w => w.type !== 'extra');
+  return {
+    words,
+    correct: scored.filter(w => w.type === 'correct').length,
+    total: scored.length,
+    extra: words.length - scored.length,
+  };
+};
+
+// Share of the segment written correctly, with extra words counting against it
+export const dictationScore = (result: { correct: number; total: number; extra: number }): number =>
+  result.total + result.extra === 0 ? 0 : result.correct / (result.total + result.extra);
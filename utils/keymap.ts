@@ -0,0 +1,168 @@
+// --- Reader keyboard shortcuts ---
+// A binding is a key name with its modifiers, e.g. "Space", "Shift+ArrowLeft", "Ctrl+K" or "?".
+// Letters are named by their position on the keyboard, so bindings survive a switch of layout.
+
+export type KeyAction =
+  | 'togglePlay'
+  | 'replay'
+  | 'previousSentence'
+  | 'nextSentence'
+  | 'rewind'
+  | 'forward'
+  | 'slower'
+  | 'faster'
+  | 'cycleViewMode'
+  | 'cycleWordCursor'
+  | 'peekWord'
+  | 'toggleDictation'
+  | 'togglePlaybackMode'
+  | 'cycleLoopCount'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'clearLoop'
+  | 'toggleShadowing'
+  | 'record'
+  | 'stopRecording'
+  | 'playRecording'
+  | 'cycleRolePlay'
+  | 'showShortcuts';
+
+export type Keymap = Record<KeyAction, string | null>; // null leaves an action without a shortcut
+
+export type KeyActionGroup = 'Playback' | 'View' | 'Loop' | 'Recording';
+
+export const KEY_ACTIONS: { id: KeyAction; label: string; group: KeyActionGroup }[] = [
+  { id: 'togglePlay', label: 'Play / Pause', group: 'Playback' },
+  { id: 'replay', label: 'Replay Sentence', group: 'Playback' },
+  { id: 'previousSentence', label: 'Previous Sentence', group: 'Playback' },
+  { id: 'nextSentence', label: 'Next Sentence', group: 'Playback' },
+  { id: 'rewind', label: 'Rewind 2s', group: 'Playback' },
+  { id: 'forward', label: 'Forward 2s', group: 'Playback' },
+  { id: 'slower', label: 'Slower', group: 'Playback' },
+  { id: 'faster', label: 'Faster', group: 'Playback' },
+  { id: 'cycleViewMode', label: 'Full Text / Blur / Blind / Gap Fill', group: 'View' },
+  { id: 'cycleWordCursor', label: 'Word Cursor', group: 'View' },
+  { id: 'peekWord', label: 'Peek at Spoken Word (Hold)', group: 'View' },
+  { id: 'toggleDictation', label: 'Dictation', group: 'View' },
+  { id: 'showShortcuts', label: 'Keyboard Shortcuts', group: 'View' },
+  { id: 'togglePlaybackMode', label: 'Article / Sentence Mode', group: 'Loop' },
+  { id: 'cycleLoopCount', label: 'Repeat Count', group: 'Loop' },
+  { id: 'setLoopStart', label: 'Set Loop Start (A)', group: 'Loop' },
+  { id: 'setLoopEnd', label: 'Set Loop End (B)', group: 'Loop' },
+  { id: 'clearLoop', label: 'Clear Range', group: 'Loop' },
+  { id: 'toggleShadowing', label: 'Shadowing (Record While Playing)', group: 'Recording' },
+  { id: 'record', label: 'Record / Pause Recording', group: 'Recording' },
+  { id: 'stopRecording', label: 'Stop Recording', group: 'Recording' },
+  { id: 'playRecording', label: 'Play My Recording', group: 'Recording' },
+  { id: 'cycleRolePlay', label: 'Role-play Speaker', group: 'Recording' },
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  togglePlay: 'Space',
+  replay: 'R', // Was bare Control, which fired at the start of every Ctrl+ browser shortcut
+  previousSentence: 'ArrowLeft',
+  nextSentence: 'ArrowRight',
+  rewind: 'Shift+ArrowLeft',
+  forward: 'Shift+ArrowRight',
+  slower: '-',
+  faster: '=',
+  cycleViewMode: 'ArrowUp',
+  cycleWordCursor: 'W',
+  peekWord: 'Q',
+  toggleDictation: 'D',
+  showShortcuts: '?',
+  togglePlaybackMode: 'M',
+  cycleLoopCount: 'L',
+  setLoopStart: 'A',
+  setLoopEnd: 'B',
+  clearLoop: 'Escape',
+  toggleShadowing: 'S',
+  record: 'V',
+  stopRecording: 'Shift+V',
+  playRecording: 'P',
+  cycleRolePlay: 'U',
+};
+
+const KEYMAP_KEY = 'blurlisten_keymap';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'AltGraph', 'Meta', 'CapsLock', 'Fn'];
+
+// Keys the browser or the page needs for itself: focus moves, reload, full screen, dev tools
+const RESERVED_KEYS = ['Tab', 'F5', 'F11', 'F12'];
+
+export const loadKeymap = (): Keymap => {
+  try {
+    const saved = localStorage.getItem(KEYMAP_KEY);
+    if (!saved) return DEFAULT_KEYMAP;
+    // Actions added since the keymap was saved get their default keys, unless the user has taken them
+    const custom: Partial<Keymap> = JSON.parse(saved);
+    const taken = new Set(Object.values(custom));
+    const added = KEY_ACTIONS.filter(({ id }) => !(id in custom)).map(({ id }) => [id, taken.has(DEFAULT_KEYMAP[id]) ? null : DEFAULT_KEYMAP[id]]);
+    return { ...DEFAULT_KEYMAP, ...Object.fromEntries(added), ...custom };
+  } catch (e) {
+    console.warn("Failed to load keymap", e);
+    return DEFAULT_KEYMAP;
+  }
+};
+
+export const saveKeymap = (keymap: Keymap): void => {
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(keymap));
+};
+
+// The binding a key press stands for, or null for a bare modifier: those only ever start a combination
+export const bindingFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+
+  let key = e.key === ' ' ? 'Space' : e.key;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (key.length === 1) key = key.toUpperCase();
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.metaKey) parts.push('Meta');
+  // Symbols already carry their Shift ("?" is Shift+/ on most layouts)
+  const isSymbol = key.length === 1 && !/[A-Z]/.test(key);
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+// Bindings the page should not take over; Ctrl and Meta combinations belong to the browser
+export const isReservedBinding = (binding: string): boolean => {
+  const parts = binding.split('+');
+  return parts.includes('Ctrl') || parts.includes('Meta') || RESERVED_KEYS.includes(parts[parts.length - 1]);
+};
+
+export const findAction = (keymap: Keymap, binding: string): KeyAction | null => {
+  return KEY_ACTIONS.find(a => keymap[a.id] === binding)?.id ?? null;
+};
+
+// Bindings given to more than one action, with the actions sharing each
+export const findConflicts = (keymap: Keymap): Map<string, KeyAction[]> => {
+  const byBinding = new Map<string, KeyAction[]>();
+  KEY_ACTIONS.forEach(({ id }) => {
+    const binding = keymap[id];
+    if (binding) byBinding.set(binding, [...(byBinding.get(binding) ?? []), id]);
+  });
+  return new Map([...byBinding].filter(([, actions]) => actions.length > 1));
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Backspace: '⌫',
+  Enter: '↵',
+};
+
+// Key caps to show for a binding, e.g. ["Shift", "←"]
+export const formatBinding = (binding: string): string[] => {
+  // The "+" key itself ends the binding with a "+" that is not a separator
+  const plusKey = binding.endsWith('+');
+  const parts = (plusKey ? binding.slice(0, -1) : binding).split('+').filter(Boolean);
+  if (plusKey) parts.push('+');
+  return parts.map(part => KEY_LABELS[part] ?? part);
+};
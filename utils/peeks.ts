@@ -0,0 +1,39 @@
+import { Segment } from '../types';
+import { tokenizeWords } from './wordTimings';
+
+// How often each word was revealed in blur mode: counts by segment id, then by word index.
+// Word indexes count the whitespace-separated words of the segment's text, like word timings do.
+export type PeekLog = Record<string, Record<number, number>>;
+
+export interface PeekedWord {
+  segmentId: string;
+  segmentIndex: number;
+  wordIndex: number;
+  word: string;
+  count: number;
+}
+
+export const addPeek = (log: PeekLog, segmentId: string, wordIndex: number): PeekLog => ({
+  ...log,
+  [segmentId]: { ...log[segmentId], [wordIndex]: (log[segmentId]?.[wordIndex] ?? 0) + 1 },
+});
+
+export const countPeeks = (log: PeekLog, segmentId: string): number =>
+  Object.values(log[segmentId] ?? {}).reduce((a, b) => a + b, 0);
+
+// Peeked words, most peeked first; peeks at words that no longer exist after a text edit are left out
+export const listPeekedWords = (segments: Segment[], log: PeekLog): PeekedWord[] =>
+  segments
+    .flatMap((seg, segmentIndex) => {
+      const words = tokenizeWords(seg.text);
+      return Object.entries(log[seg.id] ?? {})
+        .filter(([wordIndex]) => Number(wordIndex) < words.length)
+        .map(([wordIndex, count]) => ({
+          segmentId: seg.id,
+          segmentIndex,
+          wordIndex: Number(wordIndex),
+          word: words[Number(wordIndex)],
+          count,
+        }));
+    })
+    .sort((a, b) => b.count - a.count || a.segmentIndex - b.segmentIndex || a.wordIndex - b.wordIndex);
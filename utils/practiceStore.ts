@@ -0,0 +1,62 @@
+import { ClozeSettings } from './cloze';
+import { PeekLog } from './peeks';
+
+// Per-material practice preferences and progress, kept apart from the material itself:
+// re-importing or editing a session must not reset how the learner likes to practise it.
+
+// Silence left between sentence repeats for the learner to repeat aloud
+export interface ShadowGap {
+  mode: 'off' | 'fixed' | 'relative';
+  seconds: number; // Used in fixed mode
+  multiple: number; // Used in relative mode: times the sentence's playing time
+}
+
+export const DEFAULT_SHADOW_GAP: ShadowGap = { mode: 'off', seconds: 2, multiple: 1 };
+
+export type ViewMode = 'visible' | 'blur' | 'blind' | 'cloze';
+export type PlaybackMode = 'article' | 'sentence';
+
+export interface PracticeState {
+  playbackRate?: number; // 0.5 - 1.5, pitch preserved
+  speedRamp?: boolean; // Sentence loops start at playbackRate and build up to 1.0x
+  shadowGap?: ShadowGap;
+  viewMode?: ViewMode;
+  playbackMode?: PlaybackMode;
+  resumeTime?: number; // Seconds into the recording where the learner left off
+  resumeSegment?: number; // Segment that was active then, -1 before the first
+  dictation?: boolean; // Type each sentence after hearing it
+  dictationAttempts?: Record<string, string>; // Last checked attempt per segment id
+  cloze?: ClozeSettings;
+  peeks?: PeekLog; // Single words revealed in blur mode
+}
+
+const PRACTICE_KEY = 'blurlisten_practice';
+
+const loadAll = (): Record<string, PracticeState> => {
+  try {
+    const saved = localStorage.getItem(PRACTICE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn("Failed to load practice state", e);
+    return {};
+  }
+};
+
+export const loadPractice = (materialId: string): PracticeState => loadAll()[materialId] ?? {};
+
+export const savePractice = (materialId: string, patch: Partial<PracticeState>): void => {
+  const all = loadAll();
+  all[materialId] = { ...all[materialId], ...patch };
+  try {
+    localStorage.setItem(PRACTICE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("Storage quota exceeded", e);
+  }
+};
+
+export const deletePractice = (materialId: string): void => {
+  const all = loadAll();
+  if (!(materialId in all)) return;
+  delete all[materialId];
+  localStorage.setItem(PRACTICE_KEY, JSON.stringify(all));
+};
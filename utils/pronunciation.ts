@@ -0,0 +1,368 @@
+import { decodeAudioBlob } from './audioUtils';
+
+// --- Offline pronunciation similarity ---
+// A take is compared with the original span entirely in the browser. Both are brought to 16 kHz mono,
+// trimmed to their speech, and described frame by frame (energy, pitch, MFCCs). The MFCCs, which
+// carry the sounds, are aligned with DTW; the other features are then compared along that alignment,
+// so a learner who is a little slower or starts late is judged on what they said, not when.
+// Decoding needs the page's audio stack; everything after it runs in a worker, off the playback thread.
+
+export interface PronunciationScores {
+  rhythm: number; // 0–100: loud and quiet syllables where the original has them
+  intonation: number | null; // 0–100: pitch movement, in semitones from each speaker's own level; null when too little is voiced
+  timing: number; // 0–100: overall tempo and how evenly it is kept
+  overall: number;
+  durationRatio: number; // Take speech length / original speech length
+}
+
+interface Features {
+  energy: Float32Array; // dB per frame
+  pitch: Float32Array; // Semitones from the speaker's median pitch; NaN where unvoiced
+  mfcc: Float32Array[]; // Per frame, c1..c12 with the mean removed
+}
+
+const SAMPLE_RATE = 16000;
+const FRAME = 400; // 25 ms
+const HOP = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const MFCC_COUNT = 12;
+const MIN_PITCH = 70; // Hz
+const MAX_PITCH = 400;
+const VOICING_THRESHOLD = 0.5; // Normalized autocorrelation a frame needs to count as voiced
+const OCTAVE_TOLERANCE = 0.9; // A peak this close to the strongest one is preferred when it is shorter
+const PITCH_DECIMATION = 4; // The lag search runs at 4 kHz first, then only near its result at full rate
+const MIN_SPEECH_FRAMES = 20; // 0.2 s
+const MIN_VOICED_PAIRS = 10;
+const MAX_DTW_CELLS = 4_000_000; // About a 20 s sentence against itself; longer spans are decimated first
+
+// Mono mix of [fromTime, toTime) at 16 kHz. Linear interpolation is enough below 8 kHz for these features.
+const resampleMono = (buffer: AudioBuffer, fromTime = 0, toTime = buffer.duration): Float32Array => {
+  const sampleRate = buffer.sampleRate;
+  const first = Math.max(0, Math.round(fromTime * sampleRate));
+  const last = Math.min(buffer.length, Math.round(toTime * sampleRate));
+  const mix = new Float32Array(Math.max(0, last - first));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mix.length; i++) mix[i] += data[first + i] / buffer.numberOfChannels;
+  }
+  if (sampleRate === SAMPLE_RATE) return mix;
+
+  const out = new Float32Array(Math.floor(mix.length * SAMPLE_RATE / sampleRate));
+  const step = sampleRate / SAMPLE_RATE;
+  for (let i = 0; i < out.length; i++) {
+    const x = i * step;
+    const j = Math.floor(x);
+    out[i] = mix[j] + ((mix[j + 1] ?? mix[j]) - mix[j]) * (x - j);
+  }
+  return out;
+};
+
+// In-place radix-2 FFT; `re` and `im` have FFT_SIZE entries
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k), wi = Math.sin(angle * k);
+        const a = start + k, b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const HAMMING = Float32Array.from({ length: FRAME }, (_, i) => 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (FRAME - 1)));
+
+// Triangular filters evenly spaced on the mel scale, as weights over the FFT bins
+const MEL_FILTERS: Float32Array[] = (() => {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const top = toMel(SAMPLE_RATE / 2);
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) => Math.floor((FFT_SIZE + 1) * toHz(top * i / (MEL_BANDS + 1)) / SAMPLE_RATE));
+  return Array.from({ length: MEL_BANDS }, (_, m) => {
+    const weights = new Float32Array(FFT_SIZE / 2 + 1);
+    const [lo, mid, hi] = [bins[m], bins[m + 1], bins[m + 2]];
+    for (let k = lo; k < mid; k++) weights[k] = (k - lo) / Math.max(1, mid - lo);
+    for (let k = mid; k <= hi; k++) weights[k] = (hi - k) / Math.max(1, hi - mid);
+    return weights;
+  });
+})();
+
+const mfccFrame = (samples: Float32Array, start: number): Float32Array => {
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FRAME; i++) re[i] = (samples[start + i] - 0.97 * (samples[start + i - 1] ?? 0)) * HAMMING[i];
+  fft(re, im);
+  const power = new Float32Array(FFT_SIZE / 2 + 1);
+  for (let k = 0; k < power.length; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+
+  const logMel = MEL_FILTERS.map(weights => {
+    let sum = 0;
+    for (let k = 0; k < weights.length; k++) sum += weights[k] * power[k];
+    return Math.log(sum + 1e-10);
+  });
+  // DCT-II; c0 is left out since loudness is the energy feature's job
+  const coefficients = new Float32Array(MFCC_COUNT);
+  for (let c = 1; c <= MFCC_COUNT; c++) {
+    let sum = 0;
+    for (let m = 0; m < MEL_BANDS; m++) sum += logMel[m] * Math.cos(Math.PI * c * (m + 0.5) / MEL_BANDS);
+    coefficients[c - 1] = sum;
+  }
+  return coefficients;
+};
+
+// Normalized autocorrelation of `length` samples from `start` with the same samples `lag` later
+const correlationAt = (data: Float32Array, start: number, length: number, lag: number) => {
+  let cross = 0, a = 0, b = 0;
+  for (let i = 0; i < length; i++) {
+    const x = data[start + i], y = data[start + i + lag];
+    cross += x * y;
+    a += x * x;
+    b += y * y;
+  }
+  return cross / (Math.sqrt(a * b) + 1e-10);
+};
+
+// Averages every PITCH_DECIMATION samples, which also takes out most of what would alias
+const decimateSamples = (samples: Float32Array): Float32Array =>
+  Float32Array.from({ length: Math.floor(samples.length / PITCH_DECIMATION) }, (_, i) => {
+    let sum = 0;
+    for (let k = 0; k < PITCH_DECIMATION; k++) sum += samples[i * PITCH_DECIMATION + k];
+    return sum / PITCH_DECIMATION;
+  });
+
+// Autocorrelation pitch in Hz, or 0 when the frame is not clearly periodic. The strongest peak is
+// often at two or three periods (an octave or more too low), so the shortest lag that comes close
+// to it is taken as the period instead. `coarse` is `samples` decimated, for the first search.
+const pitchFrame = (samples: Float32Array, coarse: Float32Array, start: number): number => {
+  const minLag = Math.floor(SAMPLE_RATE / MAX_PITCH);
+  const maxLag = Math.ceil(SAMPLE_RATE / MIN_PITCH);
+  if (start + FRAME + maxLag + 2 * PITCH_DECIMATION > samples.length) return 0;
+
+  // Coarse: every lag at the decimated rate
+  const coarseMin = Math.floor(minLag / PITCH_DECIMATION);
+  const coarseMax = Math.ceil(maxLag / PITCH_DECIMATION);
+  const coarseStart = Math.floor(start / PITCH_DECIMATION);
+  const coarseLength = FRAME / PITCH_DECIMATION;
+  const r = new Float32Array(coarseMax + 2);
+  let best = 0;
+  for (let lag = coarseMin - 1; lag <= coarseMax + 1; lag++) {
+    r[lag] = correlationAt(coarse, coarseStart, coarseLength, lag);
+    if (lag >= coarseMin && lag <= coarseMax) best = Math.max(best, r[lag]);
+  }
+  if (best <= 0) return 0;
+  let period = 0;
+  for (let lag = coarseMin; lag <= coarseMax && !period; lag++) {
+    if (r[lag] >= OCTAVE_TOLERANCE * best && r[lag] >= r[lag - 1] && r[lag] >= r[lag + 1]) period = lag * PITCH_DECIMATION;
+  }
+  if (!period) return 0;
+
+  // Fine: full-rate lags around the coarse period; voicing is decided here
+  let fineBest = 0;
+  let fineLag = 0;
+  for (let lag = Math.max(minLag, period - PITCH_DECIMATION); lag <= Math.min(maxLag, period + PITCH_DECIMATION); lag++) {
+    const value = correlationAt(samples, start, FRAME, lag);
+    if (value > fineBest) {
+      fineBest = value;
+      fineLag = lag;
+    }
+  }
+  return fineBest >= VOICING_THRESHOLD ? SAMPLE_RATE / fineLag : 0;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Features of the speech in `samples`: leading and trailing silence is cut with an energy threshold
+// between this recording's own noise floor and speech level, like pause detection does
+const extractFeatures = (samples: Float32Array): Features | null => {
+  const frameCount = Math.floor((samples.length - FRAME) / HOP) + 1;
+  if (frameCount < MIN_SPEECH_FRAMES) return null;
+
+  const energies = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * HOP; i < f * HOP + FRAME; i++) sum += samples[i] * samples[i];
+    energies[f] = 10 * Math.log10(sum / FRAME + 1e-10);
+  }
+  const sorted = Float32Array.from(energies).sort();
+  const floor = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[Math.floor(sorted.length * 0.95)];
+  if (peak - floor < 6) return null; // Silence or noise only
+  const threshold = floor + (peak - floor) * 0.35;
+  let first = 0;
+  while (first < frameCount && energies[first] < threshold) first++;
+  let last = frameCount - 1;
+  while (last > first && energies[last] < threshold) last--;
+  if (last - first + 1 < MIN_SPEECH_FRAMES) return null;
+
+  const count = last - first + 1;
+  const energy = energies.slice(first, last + 1);
+  const coarse = decimateSamples(samples);
+  const hz = Array.from({ length: count }, (_, f) => energy[f] >= threshold ? pitchFrame(samples, coarse, (first + f) * HOP) : 0);
+  const voiced = hz.filter(p => p > 0);
+  const reference = voiced.length > 0 ? median(voiced) : 1;
+  const pitch = Float32Array.from(hz, p => p > 0 ? 12 * Math.log2(p / reference) : NaN);
+
+  const mfcc = Array.from({ length: count }, (_, f) => mfccFrame(samples, (first + f) * HOP));
+  // Cepstral mean normalization takes out the microphone and the room
+  const mean = new Float32Array(MFCC_COUNT);
+  mfcc.forEach(frame => frame.forEach((v, c) => mean[c] += v / count));
+  mfcc.forEach(frame => frame.forEach((v, c) => frame[c] = v - mean[c]));
+
+  return { energy, pitch, mfcc };
+};
+
+const distance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// Dynamic time warping over MFCC frames; returns the matched frame pairs from start to end
+const alignFrames = (a: Float32Array[], b: Float32Array[]): [number, number][] => {
+  const n = a.length;
+  const m = b.length;
+  const cost = new Float32Array(n * m);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const d = distance(a[i], b[j]);
+      if (i === 0 && j === 0) cost[0] = d;
+      else if (i === 0) cost[j] = cost[j - 1] + d;
+      else if (j === 0) cost[i * m] = cost[(i - 1) * m] + d;
+      else cost[i * m + j] = d + Math.min(cost[(i - 1) * m + j - 1], cost[(i - 1) * m + j], cost[i * m + j - 1]);
+    }
+  }
+
+  const path: [number, number][] = [[n - 1, m - 1]];
+  let i = n - 1, j = m - 1;
+  while (i > 0 || j > 0) {
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = cost[(i - 1) * m + j - 1], up = cost[(i - 1) * m + j], left = cost[i * m + j - 1];
+      if (diagonal <= up && diagonal <= left) { i--; j--; }
+      else if (up <= left) i--;
+      else j--;
+    }
+    path.push([i, j]);
+  }
+  return path.reverse();
+};
+
+// Keeps every `step`th frame so the DTW grid stays within MAX_DTW_CELLS
+const decimate = (features: Features, step: number): Features => step === 1 ? features : {
+  energy: features.energy.filter((_, f) => f % step === 0),
+  pitch: features.pitch.filter((_, f) => f % step === 0),
+  mfcc: features.mfcc.filter((_, f) => f % step === 0),
+};
+
+const correlation = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let cross = 0, vx = 0, vy = 0;
+  for (let k = 0; k < n; k++) {
+    cross += (xs[k] - mx) * (ys[k] - my);
+    vx += (xs[k] - mx) ** 2;
+    vy += (ys[k] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cross / Math.sqrt(vx * vy) : 0;
+};
+
+const toScore = (x: number) => Math.round(100 * Math.min(1, Math.max(0, x)));
+
+const compareFeatures = (original: Features, take: Features): PronunciationScores => {
+  const step = Math.ceil(Math.sqrt(original.mfcc.length * take.mfcc.length / MAX_DTW_CELLS));
+  const a = decimate(original, step);
+  const b = decimate(take, step);
+  const path = alignFrames(a.mfcc, b.mfcc);
+
+  // Rhythm: the energy envelopes, which rise on stressed syllables, followed along the alignment
+  const rhythm = correlation(path.map(([i]) => a.energy[i]), path.map(([, j]) => b.energy[j]));
+
+  // Intonation: pitch movement on frames voiced in both, relative to each speaker's own register
+  const voiced = path.filter(([i, j]) => !Number.isNaN(a.pitch[i]) && !Number.isNaN(b.pitch[j]));
+  const semitones = voiced.reduce((sum, [i, j]) => sum + Math.abs(a.pitch[i] - b.pitch[j]), 0) / Math.max(1, voiced.length);
+  const intonation = voiced.length >= MIN_VOICED_PAIRS ? toScore(Math.exp(-semitones / 3)) : null;
+
+  // Timing: the overall tempo, and how far the alignment strays from a straight line at that tempo
+  // (rushed words, dragged words, hesitations)
+  const durationRatio = take.energy.length / original.energy.length;
+  const slope = (b.mfcc.length - 1) / Math.max(1, a.mfcc.length - 1);
+  const drift = path.reduce((sum, [i, j]) => sum + Math.abs(j - i * slope), 0) / path.length / Math.max(1, b.mfcc.length);
+  const timing = Math.exp(-2 * Math.abs(Math.log(durationRatio))) * Math.exp(-4 * drift);
+
+  const parts = [toScore(rhythm), toScore(timing), ...(intonation === null ? [] : [intonation])];
+  return {
+    rhythm: toScore(rhythm),
+    intonation,
+    timing: toScore(timing),
+    overall: Math.round(parts.reduce((x, y) => x + y, 0) / parts.length),
+    durationRatio,
+  };
+};
+
+// Scores two 16 kHz mono recordings, or null when either has no usable speech. Runs in the worker.
+export const compareSpeech = (original: Float32Array, take: Float32Array): PronunciationScores | null => {
+  const originalFeatures = extractFeatures(original);
+  const takeFeatures = extractFeatures(take);
+  return originalFeatures && takeFeatures ? compareFeatures(originalFeatures, takeFeatures) : null;
+};
+
+// One worker for the session, started on first use; replies carry the id of the request they answer
+let worker: Worker | null = null;
+let nextRequest = 0;
+const pending = new Map<number, (scores: PronunciationScores | null) => void>();
+
+const compareInWorker = (original: Float32Array, take: Float32Array): Promise<PronunciationScores | null> => {
+  if (!worker) {
+    worker = new Worker(new URL('./pronunciationWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number; scores: PronunciationScores | null }>) => {
+      pending.get(e.data.id)?.(e.data.scores);
+      pending.delete(e.data.id);
+    };
+    worker.onerror = (e) => {
+      console.error("Pronunciation worker failed:", e.message);
+      pending.forEach(resolve => resolve(null));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  const id = nextRequest++;
+  return new Promise(resolve => {
+    pending.set(id, resolve);
+    worker!.postMessage({ id, original, take }, [original.buffer, take.buffer]);
+  });
+};
+
+// Scores a take against [fromTime, toTime) of the original. Resolves to null when either side has
+// no usable speech (silence, a cut-off take, or audio that could not be decoded); never rejects.
+export async function scorePronunciation(take: Blob | AudioBuffer, original: AudioBuffer, fromTime: number, toTime: number): Promise<PronunciationScores | null> {
+  try {
+    const takeBuffer = take instanceof Blob ? await decodeAudioBlob(take) : take;
+    return await compareInWorker(resampleMono(original, fromTime, toTime), resampleMono(takeBuffer));
+  } catch (error) {
+    console.error("Pronunciation scoring failed:", error);
+    return null;
+  }
+}
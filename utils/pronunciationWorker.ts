@@ -0,0 +1,14 @@
+import { compareSpeech } from './pronunciation';
+
+// Feature extraction and DTW for pronunciation scoring, kept off the page's thread so a long take
+// never holds up playback or the reader
+self.onmessage = (e: MessageEvent<{ id: number; original: Float32Array; take: Float32Array }>) => {
+  const { id, original, take } = e.data;
+  let scores = null;
+  try {
+    scores = compareSpeech(original, take);
+  } catch (error) {
+    console.error("Pronunciation scoring failed:", error);
+  }
+  self.postMessage({ id, scores });
+};
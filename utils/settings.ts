@@ -0,0 +1,32 @@
+export type AlignmentProviderId = 'gemini' | 'http' | 'local';
+
+export interface AppSettings {
+  alignmentProvider: AlignmentProviderId;
+  geminiModel: string;
+  httpEndpoint: string; // Self-hosted aligner, e.g. http://192.168.1.20:8000/align
+  httpToken: string; // Optional bearer token for the self-hosted aligner
+}
+
+const SETTINGS_KEY = 'blurlisten_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  alignmentProvider: 'gemini',
+  geminiModel: 'gemini-2.5-flash',
+  httpEndpoint: '',
+  httpToken: '',
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    // Merge over defaults so settings saved by older versions pick up new fields
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.warn("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,213 @@
+import { stretchSpan } from './timeStretch';
+
+// --- Simultaneous shadowing ---
+// The microphone is captured on the same AudioContext that plays the original, so every take
+// sample has a time on the clock the original was scheduled on. What remains is latency: the
+// original reaches the ears `outputLatency` after it is scheduled and the voice reaches the
+// capture `inputLatency` after it is spoken. A manual offset covers what the browser does not report.
+
+export type TakePlayback = 'original' | 'take' | 'stereo' | 'mixed';
+
+export interface ShadowTake {
+  capture: Float32Array; // Mono microphone samples, as recorded
+  sampleRate: number;
+  lead: number; // Seconds into the capture at which the learner was speaking along to `from`
+  from: number; // Media span of the original and the speed it played at
+  to: number;
+  rate: number;
+}
+
+interface Capture {
+  samples: Float32Array;
+  sampleRate: number;
+  startedAt: number; // AudioContext time of the first sample
+}
+
+const OFFSET_KEY = 'blurlisten_shadow_offset';
+const CAPTURE_BLOCK = 4096;
+const MAX_TAKE_GAIN = 4;
+const TAKE_CHUNK_SECONDS = 10; // Media time rendered per playback node
+const START_LATENCY = 0.03;
+
+// Longest stretch of the original a take runs over; the capture is held in memory until it is deleted
+export const MAX_TAKE_SECONDS = 60;
+
+// Manual sync correction in milliseconds; it depends on the device, not on the material
+export const loadShadowOffset = (): number => {
+  const saved = Number(localStorage.getItem(OFFSET_KEY));
+  return Number.isFinite(saved) ? saved : 0;
+};
+
+export const saveShadowOffset = (ms: number): void => {
+  localStorage.setItem(OFFSET_KEY, String(ms));
+};
+
+export class ShadowRecorder {
+  private readonly context: AudioContext;
+  private readonly stream: MediaStream;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private sink: GainNode | null = null;
+  private chunks: Float32Array[] = [];
+  private startedAt: number | null = null;
+
+  constructor(context: AudioContext, stream: MediaStream) {
+    this.context = context;
+    this.stream = stream;
+  }
+
+  // As reported for the microphone track; browsers that do not report it get 0
+  get inputLatency(): number {
+    const settings = this.stream.getAudioTracks()[0]?.getSettings() as MediaTrackSettings & { latency?: number };
+    return settings?.latency ?? 0;
+  }
+
+  start() {
+    this.source = this.context.createMediaStreamSource(this.stream);
+    this.processor = this.context.createScriptProcessor(CAPTURE_BLOCK, 1, 1);
+    // Processors only run while connected to the output; the muted sink keeps the voice off the speakers
+    this.sink = this.context.createGain();
+    this.sink.gain.value = 0;
+    this.processor.onaudioprocess = (e) => {
+      if (this.startedAt === null) this.startedAt = this.context.currentTime - e.inputBuffer.duration;
+      this.chunks.push(e.inputBuffer.getChannelData(0).slice());
+    };
+    this.source.connect(this.processor);
+    this.processor.connect(this.sink);
+    this.sink.connect(this.context.destination);
+  }
+
+  stop(): Capture {
+    this.cancel();
+    const samples = new Float32Array(this.chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    this.chunks.forEach(c => {
+      samples.set(c, offset);
+      offset += c.length;
+    });
+    this.chunks = [];
+    return { samples, sampleRate: this.context.sampleRate, startedAt: this.startedAt ?? this.context.currentTime };
+  }
+
+  // Releases the microphone without keeping anything
+  cancel() {
+    if (this.processor) this.processor.onaudioprocess = null;
+    this.source?.disconnect();
+    this.processor?.disconnect();
+    this.sink?.disconnect();
+    this.stream.getTracks().forEach(track => track.stop());
+  }
+}
+
+// `playedAt` is the AudioContext time the original's `from` was scheduled at
+export const createTake = (capture: Capture, playedAt: number, latency: number, from: number, to: number, rate: number): ShadowTake => ({
+  capture: capture.samples,
+  sampleRate: capture.sampleRate,
+  lead: playedAt - capture.startedAt + latency,
+  from,
+  to,
+  rate,
+});
+
+// Peak of media time [from, to) of the original, mixed to mono
+const sourcePeak = (source: AudioBuffer, from: number, to: number) => {
+  const first = Math.round(from * source.sampleRate);
+  const last = Math.min(source.length, Math.round(to * source.sampleRate));
+  const channels = Array.from({ length: source.numberOfChannels }, (_, c) => source.getChannelData(c));
+  let max = 0;
+  for (let i = first; i < last; i++) {
+    let v = 0;
+    for (const data of channels) v += data[i];
+    max = Math.max(max, Math.abs(v / channels.length));
+  }
+  return max;
+};
+
+// Quiet takes are brought up to the original's level, within reason; worked out once for the whole take
+const takeGain = (source: AudioBuffer, take: ShadowTake, offsetMs: number) => {
+  const first = Math.max(0, Math.round((take.lead + offsetMs / 1000) * take.sampleRate));
+  const last = Math.min(take.capture.length, first + Math.round((take.to - take.from) / take.rate * take.sampleRate));
+  let voicePeak = 0;
+  for (let i = first; i < last; i++) voicePeak = Math.max(voicePeak, Math.abs(take.capture[i]));
+  return voicePeak > 0 ? Math.min(MAX_TAKE_GAIN, Math.max(1, sourcePeak(source, take.from, take.to) / voicePeak)) : 1;
+};
+
+// Media time [from, to) of the take: the original as it was heard (same speed) next to or mixed with the voice
+const renderTakeChunk = (context: BaseAudioContext, source: AudioBuffer, take: ShadowTake, mode: TakePlayback, offsetMs: number, gain: number, from: number, to: number): AudioBuffer => {
+  const sampleRate = source.sampleRate;
+  const heard = take.rate === 1
+    ? null
+    : stretchSpan(context, source, from, to, take.rate);
+  const length = heard ? heard.length : Math.max(1, Math.round((to - from) * sampleRate));
+
+  // Mono mix of the original span
+  const original = new Float32Array(length);
+  const first = Math.round(from * sampleRate);
+  for (let c = 0; c < source.numberOfChannels; c++) {
+    const data = heard ? heard.getChannelData(c) : source.getChannelData(c).subarray(first, first + length);
+    for (let i = 0; i < data.length; i++) original[i] += data[i] / source.numberOfChannels;
+  }
+
+  // The take, cut to line up with the original sample for sample
+  const output = context.createBuffer(2, length, sampleRate);
+  const left = output.getChannelData(0);
+  const right = output.getChannelData(1);
+  const start = (take.lead + offsetMs / 1000 + (from - take.from) / take.rate) * take.sampleRate;
+  for (let i = 0; i < length; i++) {
+    const j = Math.round(start + (i * take.sampleRate) / sampleRate);
+    const o = original[i];
+    const v = j >= 0 && j < take.capture.length ? take.capture[j] * gain : 0;
+    if (mode === 'original') left[i] = right[i] = o;
+    else if (mode === 'take') left[i] = right[i] = v;
+    else if (mode === 'stereo') [left[i], right[i]] = [o, v];
+    else left[i] = right[i] = (o + v) / 2;
+  }
+  return output;
+};
+
+// Plays a take through `context`, rendered in chunks and queued one node ahead like stretched playback
+// in BufferPlayer, so a long take never needs one large render. Returns a function that stops it.
+export const playTake = (context: AudioContext, source: AudioBuffer, take: ShadowTake, mode: TakePlayback, offsetMs: number, onEnded: () => void): (() => void) => {
+  const gain = takeGain(source, take, offsetMs);
+  const live = new Set<AudioBufferSourceNode>();
+  let stopped = false;
+  let next = take.from; // Media time of the next chunk to render
+  let tailEndsAt = 0; // AudioContext time the last queued node ends
+
+  const queueNext = () => {
+    if (stopped || next >= take.to - 0.001) return;
+    const from = next;
+    const to = Math.min(take.to, from + TAKE_CHUNK_SECONDS);
+    const node = context.createBufferSource();
+    node.buffer = renderTakeChunk(context, source, take, mode, offsetMs, gain, from, to);
+    node.connect(context.destination);
+    node.start(tailEndsAt);
+    tailEndsAt += node.buffer.duration;
+    next = to;
+    live.add(node);
+    node.onended = () => {
+      live.delete(node);
+      node.disconnect();
+      if (stopped) return;
+      queueNext();
+      if (live.size === 0) onEnded();
+    };
+  };
+
+  context.resume().then(() => {
+    if (stopped) return;
+    tailEndsAt = context.currentTime + START_LATENCY;
+    queueNext();
+    queueNext();
+  });
+
+  return () => {
+    stopped = true;
+    live.forEach(node => {
+      node.onended = null;
+      try { node.stop(); } catch { /* Not started yet */ }
+      node.disconnect();
+    });
+    live.clear();
+  };
+};
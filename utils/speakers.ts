@@ -0,0 +1,89 @@
+import { Segment } from '../types';
+import { tokenizeWords, getWordTimings } from './wordTimings';
+
+export interface SpeakerTurn {
+  speaker: string;
+  text: string;
+}
+
+// A label is one or two capitalised tokens ("A", "Tom", "Speaker 2", "Mr Smith") followed by a colon,
+// at the start of a line or right after the end of a sentence ("...right? B: Sure.")
+const TURN_LABEL = /(^|\n|(?<=[.!?…"”)\]]\s))[ \t]*(\p{Lu}[\p{L}\p{N}]*(?: [\p{Lu}\p{N}][\p{L}\p{N}]*)?):\s+/gu;
+
+// Palette for speaker colour coding; the accent red stays reserved for the active segment
+const SPEAKER_COLORS = ['#60a5fa', '#f59e0b', '#a78bfa', '#34d399', '#f472b6', '#22d3ee'];
+
+// Splits a labelled dialogue transcript into turns. Returns null for prose: the text must open
+// with a label and have at least two speakers, so a stray "Note:" is not taken for a dialogue.
+export const parseSpeakerTurns = (text: string): SpeakerTurn[] | null => {
+  const matches = [...text.matchAll(TURN_LABEL)];
+  if (matches.length < 2 || text.slice(0, matches[0].index).trim() !== '') return null;
+  if (new Set(matches.map(m => m[2])).size < 2) return null;
+
+  return matches
+    .map((m, i) => ({
+      speaker: m[2],
+      text: text.slice(m.index! + m[0].length, matches[i + 1]?.index ?? text.length).replace(/\s+/g, ' ').trim(),
+    }))
+    .filter(turn => turn.text);
+};
+
+// The transcript without labels, one turn per line: what the aligner should hear
+export const turnsToText = (turns: SpeakerTurn[]): string => turns.map(t => t.text).join('\n');
+
+export const removeSpeakerLabels = (text: string): string =>
+  text.replace(TURN_LABEL, (_, lead: string) => lead).replace(/\s+/g, ' ').trim();
+
+// Labels each segment with the speaker of its words. Segments spanning a change of speaker are split
+// at the word boundary, so every segment belongs to one speaker. Expects segment texts that follow
+// the turns word for word, as validateAlignment leaves them.
+export const assignSpeakers = (segments: Segment[], turns: SpeakerTurn[]): Segment[] => {
+  const wordSpeakers = turns.flatMap(turn => tokenizeWords(turn.text).map(() => turn.speaker));
+  if (wordSpeakers.length === 0) return segments;
+  let cursor = 0;
+
+  return segments.flatMap(seg => {
+    const words = tokenizeWords(seg.text);
+    const runs: { speaker: string; from: number; to: number }[] = [];
+    words.forEach((_, i) => {
+      const speaker = wordSpeakers[Math.min(cursor + i, wordSpeakers.length - 1)];
+      const last = runs[runs.length - 1];
+      if (last?.speaker === speaker) last.to = i + 1;
+      else runs.push({ speaker, from: i, to: i + 1 });
+    });
+    cursor += words.length;
+
+    if (runs.length <= 1) return [{ ...seg, speaker: runs[0]?.speaker ?? seg.speaker }];
+
+    const timings = getWordTimings(seg);
+    const hasWords = seg.words?.length === words.length;
+    return runs.map((run, k): Segment => ({
+      ...seg,
+      id: k === 0 ? seg.id : `${seg.id}-${k}`,
+      text: words.slice(run.from, run.to).join(' '),
+      startTime: k === 0 ? seg.startTime : timings[run.from].startTime,
+      endTime: k === runs.length - 1 ? seg.endTime : timings[run.to].startTime,
+      words: hasWords ? seg.words!.slice(run.from, run.to) : undefined,
+      speaker: run.speaker,
+    }));
+  });
+};
+
+// Speakers in order of first appearance
+export const listSpeakers = (segments: Segment[]): string[] =>
+  [...new Set(segments.map(s => s.speaker).filter((s): s is string => !!s))];
+
+export const getSpeakerColor = (speakers: string[], speaker: string): string =>
+  SPEAKER_COLORS[Math.max(0, speakers.indexOf(speaker)) % SPEAKER_COLORS.length];
+
+// Rebuilds an editable transcript; dialogues get one labelled line per turn so speakers survive a re-import
+export const formatTranscript = (segments: Segment[]): string => {
+  if (listSpeakers(segments).length < 2) return segments.map(s => s.text).join(' ');
+
+  const lines: string[] = [];
+  segments.forEach((seg, i) => {
+    if (i > 0 && seg.speaker === segments[i - 1].speaker) lines[lines.length - 1] += ` ${seg.text}`;
+    else lines.push(seg.speaker ? `${seg.speaker}: ${seg.text}` : seg.text);
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,248 @@
+import { Segment } from '../types';
+import { mergeShortFragments } from './textUtils';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc';
+
+export interface SubtitleCue {
+  text: string;
+  startTime: number; // in seconds
+  endTime: number; // in seconds
+  line: number; // 1-based line in the source file, for error messages
+}
+
+export class SubtitleParseError extends Error {
+  line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SubtitleParseError';
+    this.line = line;
+  }
+}
+
+export const SUBTITLE_EXTENSIONS = '.srt,.vtt,.lrc';
+
+export const detectSubtitleFormat = (fileName: string, content: string): SubtitleFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'lrc') return ext;
+  // Sniff the content when the extension is missing or unusual
+  if (/^\uFEFF?WEBVTT/.test(content)) return 'vtt';
+  if (/-->/.test(content)) return 'srt';
+  if (/^\s*\[\d+:\d+/m.test(content)) return 'lrc';
+  return null;
+};
+
+// Accepts hh:mm:ss,ttt (SRT), hh:mm:ss.ttt / mm:ss.ttt (WebVTT)
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  return (parseInt(h || '0', 10) * 3600) + (parseInt(m, 10) * 60) + parseInt(s, 10) + parseInt((frac || '0').padEnd(3, '0'), 10) / 1000;
+};
+
+// Removes styling that players render but learners shouldn't see: <i>, <c.yellow>, {\an8}.
+// A leading WebVTT voice tag (<v Tom>) becomes a "Tom: " label, which the import turns into a speaker.
+const cleanCueText = (lines: string[]): string =>
+  lines
+    .join(' ')
+    .replace(/^\s*<v(?:\.[^\s>]*)?\s+([^>]+)>/, '$1: ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// SRT and WebVTT share the same block structure: [identifier] / timing line / text lines
+const parseCueBlocks = (lines: string[], isVtt: boolean): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let i = 0;
+
+  if (isVtt) {
+    if (!/^\uFEFF?WEBVTT/.test(lines[0] || '')) {
+      throw new SubtitleParseError(1, 'WebVTT files must start with "WEBVTT".');
+    }
+    // Skip the header block
+    while (i < lines.length && lines[i].trim() !== '') i++;
+  }
+
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '') block.push(lines[i++]);
+
+    if (isVtt && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+    const timingIndex = block.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) {
+      throw new SubtitleParseError(blockStart + 1, `Expected a timing line like "00:00:01,000 --> 00:00:04,000" but found "${block[0].trim()}".`);
+    }
+    if (timingIndex > 1) {
+      throw new SubtitleParseError(blockStart + 2, `Unexpected text before the timing line.`);
+    }
+
+    const timingLine = blockStart + timingIndex + 1;
+    const [rawStart, rawRest] = block[timingIndex].split('-->');
+    const startTime = parseTimestamp(rawStart);
+    // WebVTT allows cue settings after the end time ("align:start position:10%")
+    const endTime = parseTimestamp((rawRest || '').trim().split(/\s+/)[0] || '');
+    if (startTime === null || endTime === null) {
+      throw new SubtitleParseError(timingLine, `Invalid timestamp in "${block[timingIndex].trim()}".`);
+    }
+    if (endTime < startTime) {
+      throw new SubtitleParseError(timingLine, `Cue ends before it starts.`);
+    }
+
+    const text = cleanCueText(block.slice(timingIndex + 1));
+    if (text) cues.push({ text, startTime, endTime, line: timingLine });
+  }
+
+  return cues;
+};
+
+const parseLrc = (lines: string[], audioDuration?: number): SubtitleCue[] => {
+  const stamps: { time: number; text: string; line: number }[] = [];
+  let offset = 0;
+
+  lines.forEach((raw, idx) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    // Metadata tags: [ar:Artist], [ti:Title], [offset:+500]
+    const meta = line.match(/^\[([a-z]+):(.*)\]$/i);
+    if (meta) {
+      if (meta[1].toLowerCase() === 'offset') offset = (parseInt(meta[2], 10) || 0) / 1000;
+      return;
+    }
+
+    // One line may carry several timestamps: [00:12.00][01:30.50]Chorus line
+    const tagPattern = /^\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/;
+    let rest = line;
+    const times: number[] = [];
+    let match = rest.match(tagPattern);
+    while (match) {
+      times.push(parseInt(match[1], 10) * 60 + parseFloat(match[2].replace(':', '.')));
+      rest = rest.slice(match[0].length);
+      match = rest.match(tagPattern);
+    }
+    if (times.length === 0) {
+      throw new SubtitleParseError(idx + 1, `Expected a timestamp like "[00:12.34]" but found "${line}".`);
+    }
+
+    // Enhanced LRC word tags (<00:12.34>) are dropped here
+    const text = cleanCueText([rest]);
+    times.forEach(time => stamps.push({ time, text, line: idx + 1 }));
+  });
+
+  // A positive offset means the lyrics should appear sooner
+  stamps.sort((a, b) => a.time - b.time);
+  const shifted = stamps.map(s => ({ ...s, time: Math.max(0, s.time - offset) }));
+
+  const cues: SubtitleCue[] = [];
+  shifted.forEach((stamp, i) => {
+    if (!stamp.text) return; // Empty lines only mark where the previous line ends
+    const next = shifted[i + 1];
+    const endTime = next ? next.time : (audioDuration && audioDuration > stamp.time ? audioDuration : stamp.time + 5);
+    cues.push({ text: stamp.text, startTime: stamp.time, endTime, line: stamp.line });
+  });
+  return cues;
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat, audioDuration?: number): SubtitleCue[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const cues = format === 'lrc' ? parseLrc(lines, audioDuration) : parseCueBlocks(lines, format === 'vtt');
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError(1, 'No cues found in the subtitle file.');
+  }
+  return cues;
+};
+
+// Short cues ("Okay.", "Right.") are merged forward, like splitIntoSentencesFallback does for sentences
+export const cuesToSegments = (cues: SubtitleCue[], audioDuration?: number): Segment[] => {
+  const sorted = [...cues].sort((a, b) => a.startTime - b.startTime);
+  const merged = mergeShortFragments(
+    sorted,
+    c => c.text,
+    (a, b) => ({ ...a, text: `${a.text} ${b.text}`, endTime: Math.max(a.endTime, b.endTime) })
+  );
+
+  const stamp = Date.now();
+  return merged.map((cue, i) => {
+    const limit = audioDuration ?? Infinity;
+    return {
+      id: `sub-${stamp}-${i}`,
+      text: cue.text,
+      startTime: Math.min(cue.startTime, limit),
+      endTime: Math.min(cue.endTime, limit),
+    };
+  });
+};
+
+// --- Export ---
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// SRT uses "00:01:02,345", WebVTT "00:01:02.345"
+const formatCueTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// LRC uses "[01:02.35]" (minutes may exceed 59)
+const formatLrcTimestamp = (seconds: number): string => {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const m = Math.floor(totalCs / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  return `[${pad(m)}:${pad(s)}.${pad(totalCs % 100)}]`;
+};
+
+export const formatSubtitles = (segments: Segment[], format: SubtitleFormat, title?: string): string => {
+  if (format === 'lrc') {
+    const lines: string[] = [];
+    if (title) lines.push(`[ti:${title}]`);
+    segments.forEach((seg, i) => {
+      lines.push(`${formatLrcTimestamp(seg.startTime)}${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}`);
+      // LRC has no end times; an empty line marks a gap before the next segment
+      const next = segments[i + 1];
+      if (!next || next.startTime - seg.endTime > 0.01) lines.push(formatLrcTimestamp(seg.endTime));
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  const separator = format === 'srt' ? ',' : '.';
+  const blocks = segments.map((seg, i) => {
+    const timing = `${formatCueTimestamp(seg.startTime, separator)} --> ${formatCueTimestamp(seg.endTime, separator)}`;
+    if (format === 'vtt') return `${timing}\n${seg.speaker ? `<v ${seg.speaker}>` : ''}${seg.text}`;
+    return `${i + 1}\n${timing}\n${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}`;
+  });
+  return (format === 'vtt' ? 'WEBVTT\n\n' : '') + blocks.join('\n\n') + '\n';
+};
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  lrc: 'text/plain',
+};
+
+export const downloadSubtitles = (title: string, segments: Segment[], format: SubtitleFormat) => {
+  const blob = new Blob([formatSubtitles(segments, format, title)], { type: `${MIME_TYPES[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 60) || 'timings'}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,79 @@
+export interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  aIndex: number; // Index into `a` (for 'equal' and 'delete'), otherwise the position in `a` it sits before
+  bIndex: number; // Index into `b` (for 'equal' and 'insert'), otherwise the position in `b` it sits before
+}
+
+// Lowercase, no punctuation, curly quotes straightened: "Don’t," -> "don't"
+export const normalizeWord = (word: string): string =>
+  word
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[^\p{L}\p{N}']/gu, '')
+    .replace(/^'+|'+$/g, '');
+
+// Myers O((N+M)D) diff: fast when the sequences mostly agree, which is the common case
+// for transcripts. Returns null when more than `maxEdits` edits are needed.
+export const diffSequences = <T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y,
+  maxEdits = Infinity
+): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Step d only reads diagonals -d-1..d+1 of the frontier before it, so only that band is kept:
+  // O(D²) memory rather than a full frontier per step
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Backtrack through the saved frontiers
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const band = trace[d];
+    const vd = (diagonal: number) => band[diagonal + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && vd(k - 1) < vd(k + 1))) ? k + 1 : k - 1;
+    const prevX = vd(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', aIndex: x, bIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'insert', aIndex: x, bIndex: prevY });
+      else ops.push({ type: 'delete', aIndex: prevX, bIndex: y });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
@@ -0,0 +1,50 @@
+// Threshold of 18 catches things like "That's right", "Me too", "Oh yeah"
+const SHORT_FRAGMENT_LENGTH = 18;
+
+// Forward merge: short fragments are glued onto whatever follows them,
+// so interjections never end up as isolated segments.
+export const mergeShortFragments = <T>(
+  items: T[],
+  getText: (item: T) => string,
+  merge: (first: T, second: T) => T
+): T[] => {
+  const merged: T[] = [];
+  let pending: T | null = null;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const isLast = i === items.length - 1;
+    const isShort = getText(item).trim().length < SHORT_FRAGMENT_LENGTH;
+    const combined = pending !== null ? merge(pending, item) : item;
+
+    if (isShort && !isLast) {
+      pending = combined;
+    } else {
+      merged.push(combined);
+      pending = null;
+    }
+  }
+
+  return merged;
+};
+
+// Improved splitter that merges dangling punctuation/short segments (Fallback Logic)
+export const splitIntoSentencesFallback = (text: string): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  let rawSegments: string[] = [];
+
+  // Use Intl.Segmenter if available for better linguistic awareness
+  if (typeof Intl !== 'undefined' && (Intl as any).Segmenter) {
+      const segmenter = new (Intl as any).Segmenter('en', { granularity: 'sentence' });
+      rawSegments = [...segmenter.segment(normalized)].map((s: any) => s.segment.trim());
+  } else {
+      // Fallback regex looking for punctuation followed by space or end of string
+      const processed = normalized.replace(/([.!?。！？]+)(\s+|$)/g, "$1|");
+      rawSegments = processed.split('|').map(s => s.trim());
+  }
+
+  // Filter empty
+  rawSegments = rawSegments.filter(s => s.length > 0);
+
+  return mergeShortFragments(rawSegments, s => s, (a, b) => `${a} ${b}`);
+};
@@ -0,0 +1,99 @@
+// --- Pitch-preserving time stretching (WSOLA) ---
+// Buffer sources change pitch with their playbackRate, so slowed playback is rendered ahead of time
+// instead: overlapping windows are re-spaced in time, each shifted a little to where its waveform
+// continues the previous one best, which keeps speech free of the phasing of plain overlap-add.
+
+const FRAME_SECONDS = 0.03;
+const TOLERANCE_SECONDS = 0.012; // How far a frame may move from its nominal position
+const SEARCH_STRIDE = 8; // Coarse search step, in samples, refined around the best match
+
+// Mono mix of samples [from, to) used to pick frame positions; every channel is then cut at the same positions
+const mixDown = (buffer: AudioBuffer, from: number, to: number): Float32Array => {
+  const mix = new Float32Array(Math.max(0, to - from));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mix.length; i++) mix[i] += (data[from + i] ?? 0) / buffer.numberOfChannels;
+  }
+  return mix;
+};
+
+const correlate = (data: Float32Array, a: number, b: number, length: number, stride: number) => {
+  let sum = 0;
+  for (let i = 0; i < length; i += stride) {
+    const ia = a + i, ib = b + i;
+    if (ia < 0 || ib < 0 || ia >= data.length || ib >= data.length) continue;
+    sum += data[ia] * data[ib];
+  }
+  return sum;
+};
+
+// Renders [fromTime, toTime) of `buffer` so that it plays `rate` times as fast at the same pitch.
+// The result lasts (toTime - fromTime) / rate seconds and starts exactly at `fromTime`.
+export function stretchSpan(context: BaseAudioContext, buffer: AudioBuffer, fromTime: number, toTime: number, rate: number): AudioBuffer {
+  const sampleRate = buffer.sampleRate;
+  const start = Math.round(fromTime * sampleRate);
+  const inputLength = Math.max(1, Math.round((toTime - fromTime) * sampleRate));
+  const outputLength = Math.max(1, Math.round(inputLength / rate));
+  const output = context.createBuffer(buffer.numberOfChannels, outputLength, sampleRate);
+
+  const frame = Math.round(FRAME_SECONDS * sampleRate / 2) * 2;
+  const synthesisHop = frame / 2;
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  // Frame positions in the input, chosen on the mono mix of the span and its surroundings
+  const mixStart = Math.max(0, start - frame);
+  const mix = mixDown(buffer, mixStart, start + inputLength + tolerance + frame);
+  const positions: number[] = [];
+  for (let k = 0; k * synthesisHop < outputLength; k++) {
+    const nominal = start + Math.round(k * analysisHop);
+    if (k === 0) {
+      positions.push(nominal);
+      continue;
+    }
+    // The input that would naturally follow the previous frame's overlap
+    const natural = positions[k - 1] + synthesisHop;
+    const lo = Math.max(start, nominal - tolerance);
+    const hi = Math.min(start + inputLength, nominal + tolerance);
+    let best = nominal, bestScore = -Infinity;
+    for (let p = lo; p <= hi; p += SEARCH_STRIDE) {
+      const score = correlate(mix, natural - mixStart, p - mixStart, synthesisHop, SEARCH_STRIDE);
+      if (score > bestScore) { bestScore = score; best = p; }
+    }
+    for (let p = best - SEARCH_STRIDE + 1; p < best + SEARCH_STRIDE; p++) {
+      if (p < lo || p > hi || p === best) continue;
+      const score = correlate(mix, natural - mixStart, p - mixStart, synthesisHop, 1);
+      if (score > bestScore) { bestScore = score; best = p; }
+    }
+    positions.push(best);
+  }
+
+  // Overlap-add; normalising by the summed window keeps the level even at the edges
+  const weight = new Float32Array(outputLength);
+  positions.forEach((_, k) => {
+    for (let i = 0; i < frame; i++) {
+      const o = k * synthesisHop + i;
+      if (o < outputLength) weight[o] += window[i];
+    }
+  });
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const input = buffer.getChannelData(c);
+    const out = output.getChannelData(c);
+    positions.forEach((position, k) => {
+      for (let i = 0; i < frame; i++) {
+        const o = k * synthesisHop + i;
+        const s = position + i;
+        if (o >= outputLength || s < 0 || s >= input.length) continue;
+        out[o] += input[s] * window[i];
+      }
+    });
+    for (let o = 0; o < outputLength; o++) {
+      if (weight[o] > 1e-3) out[o] /= weight[o];
+    }
+  }
+
+  return output;
+}
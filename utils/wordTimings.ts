@@ -0,0 +1,41 @@
+import { Segment, WordTiming } from '../types';
+
+// Words are whitespace-separated tokens, punctuation included ("Well," "right?")
+export const tokenizeWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Spreads the segment's time over its words by letter count.
+// Punctuation adds a little weight so the word before a comma holds slightly longer.
+export const interpolateWordTimings = (segment: Segment): WordTiming[] => {
+  const words = tokenizeWords(segment.text);
+  const weights = words.map(w => w.replace(/[^\p{L}\p{N}]/gu, '').length + 1 + (/[,;:.!?]$/.test(w) ? 2 : 0));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const span = Math.max(0, segment.endTime - segment.startTime);
+
+  let t = segment.startTime;
+  return words.map((text, i) => {
+    const startTime = t;
+    t += total > 0 ? (weights[i] / total) * span : 0;
+    return { text, startTime, endTime: t };
+  });
+};
+
+// Aligner-provided timings are only trusted when they still match the segment's words
+// (the text may have been edited since alignment); otherwise they are interpolated.
+export const getWordTimings = (segment: Segment): WordTiming[] => {
+  const words = tokenizeWords(segment.text);
+  const provided = segment.words;
+  if (provided && provided.length === words.length && provided.every((w, i) => w.endTime >= w.startTime && (i === 0 || w.startTime >= provided[i - 1].startTime))) {
+    return provided.map((w, i) => ({ ...w, text: words[i] }));
+  }
+  return interpolateWordTimings(segment);
+};
+
+// Index of the word being spoken at `time`, or -1 outside the segment.
+// Gaps between words keep the previous word active so the cursor doesn't flicker.
+export const findWordIndex = (words: WordTiming[], time: number): number => {
+  if (words.length === 0 || time < words[0].startTime) return -1;
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (time >= words[i].startTime) return time <= words[words.length - 1].endTime ? i : -1;
+  }
+  return -1;
+};
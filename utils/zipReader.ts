@@ -0,0 +1,82 @@
+// Minimal zip reader for batch imports: lists entries from the central directory and
+// inflates them on demand with the browser's DecompressionStream. Entries are read by
+// slicing the File, so a large course archive is never loaded into memory at once.
+// Stored and deflated entries are supported; zip64 and encrypted archives are not.
+
+export interface ZipEntry {
+  path: string; // Full path inside the archive, with forward slashes
+  size: number; // Uncompressed size in bytes
+  read: () => Promise<Blob>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const findEndOfCentralDirectory = async (file: Blob): Promise<DataView> => {
+  // The record sits at the very end, followed only by an optional comment
+  const tailStart = Math.max(0, file.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readBytes(file, tailStart, file.size);
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      return new DataView(tail.buffer, tail.byteOffset + i, EOCD_MIN_SIZE);
+    }
+  }
+  throw new Error("Not a zip file.");
+};
+
+export const readZipEntries = async (file: Blob): Promise<ZipEntry[]> => {
+  const eocd = await findEndOfCentralDirectory(file);
+  const entryCount = eocd.getUint16(10, true);
+  const directorySize = eocd.getUint32(12, true);
+  const directoryOffset = eocd.getUint32(16, true);
+  if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error("Zip64 archives are not supported. Re-create the zip without zip64.");
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+
+  for (let n = 0; n < entryCount; n++) {
+    if (pos + 46 > directory.byteLength || directory.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("The zip directory is damaged.");
+    }
+    const flags = directory.getUint16(pos + 8, true);
+    const method = directory.getUint16(pos + 10, true);
+    const compressedSize = directory.getUint32(pos + 20, true);
+    const size = directory.getUint32(pos + 24, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const localOffset = directory.getUint32(pos + 42, true);
+    const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue; // Directory
+    if (flags & 0x1) throw new Error(`${path}: encrypted zip entries are not supported.`);
+    if (method !== 0 && method !== 8) throw new Error(`${path}: unsupported compression method ${method}.`);
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        // The local header repeats the name and may carry a different extra field
+        const header = await readBytes(file, localOffset, localOffset + 30);
+        if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`${path}: damaged zip entry.`);
+        const dataStart = localOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const data = file.slice(dataStart, dataStart + compressedSize);
+        if (method === 0) return data;
+        return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+      },
+    });
+  }
+
+  return entries;
+};